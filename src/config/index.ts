@@ -1,16 +1,37 @@
+import { randomBytes } from "node:crypto";
 import { config as dotenvConfig } from "dotenv";
 import type { FastifyLoggerOptions } from "fastify";
 
 dotenvConfig();
 
+/**
+ * Parse TRUST_PROXY: "true", a number of proxy hops, or a comma-separated
+ * list of proxy addresses and CIDR ranges
+ */
+function trustProxy(value: string | undefined): boolean | number | string {
+	if (!value || value === "false") {
+		return false;
+	}
+	if (value === "true") {
+		return true;
+	}
+	return /^\d+$/.test(value) ? Number(value) : value;
+}
+
 interface ServerConfig {
 	port: number;
 	host: string;
+	publicUrl: string;
+	trustProxy: boolean | number | string;
 	logger: FastifyLoggerOptions;
 }
 
 interface RedisConfig {
 	url: string | undefined;
+	compression: {
+		algorithm: "gzip" | "brotli" | "none";
+		threshold: number;
+	};
 }
 
 interface CorsConfig {
@@ -34,19 +55,48 @@ interface RateLimitConfig {
 
 interface WebSocketConfig {
 	path: string;
+	yjsPath: string;
 	heartbeatInterval: number;
 	maxConnections: number;
+	maxConnectionsPerIp: number;
 }
 
 interface CollaborationConfig {
 	sessionTTL: number;
 	maxParticipants: number;
+	maxConnectionsPerSession: number;
 	cleanupInterval: number;
+	compactionMaxUpdates: number;
+	compactionMaxBytes: number;
+	snapshotInterval: number;
+	maxSnapshots: number;
+	maxSessionLifetime: number;
+	autoRenew: boolean;
+	tokenSecret: string;
+	tokenSecretConfigured: boolean;
+}
+
+interface ShareConfig {
+	defaultTTL: number;
+	maxTTL: number;
+	passwordMaxAttempts: number;
+	passwordAttemptWindow: number;
+	maxVersions: number;
+	maxBundleSize: number;
+	attachmentTypes: string[];
+	maxAttachmentSize: number;
+	maxAttachments: number;
+	maxAttachmentsTotal: number;
+	attachmentGracePeriod: number;
+	attachmentKeyTTL: number;
+	keySecret: string;
+	keySecretConfigured: boolean;
 }
 
 interface Config {
 	server: ServerConfig;
 	redis: RedisConfig;
+	share: ShareConfig;
 	cors: CorsConfig;
 	rateLimit: RateLimitConfig;
 	websocket: WebSocketConfig;
@@ -57,16 +107,61 @@ const config: Config = {
 	server: {
 		port: Number(process.env.PORT) || 3000,
 		host: "0.0.0.0",
+		// Where clients reach the server; share page link previews point here
+		publicUrl: (
+			process.env.PUBLIC_URL || `http://localhost:${Number(process.env.PORT) || 3000}`
+		).replace(/\/+$/, ""),
+		// Take client addresses from X-Forwarded-For when behind a reverse proxy
+		trustProxy: trustProxy(process.env.TRUST_PROXY),
 		logger: {
 			level: "info",
 		},
 	},
 	redis: {
 		url: process.env.REDIS_URL,
+		compression: {
+			algorithm:
+				process.env.REDIS_COMPRESSION === "gzip" ||
+				process.env.REDIS_COMPRESSION === "none"
+					? process.env.REDIS_COMPRESSION
+					: "brotli",
+			threshold: Number(process.env.REDIS_COMPRESSION_THRESHOLD) || 1024, // bytes
+		},
+	},
+	share: {
+		defaultTTL: Number(process.env.SHARE_DEFAULT_TTL) || 60, // 60 seconds
+		maxTTL: Number(process.env.SHARE_MAX_TTL) || 604800, // 7 days
+		passwordMaxAttempts: Number(process.env.SHARE_PASSWORD_MAX_ATTEMPTS) || 5,
+		passwordAttemptWindow:
+			Number(process.env.SHARE_PASSWORD_ATTEMPT_WINDOW) || 900, // 15 minutes
+		maxVersions: Number(process.env.SHARE_MAX_VERSIONS) || 10, // earlier versions kept per share
+		maxBundleSize: Number(process.env.SHARE_MAX_BUNDLE_SIZE) || 1000000, // total characters of content
+		attachmentTypes: [
+			"image/png",
+			"image/jpeg",
+			"image/gif",
+			"image/webp",
+			"application/pdf",
+			"text/plain",
+			"application/octet-stream", // encrypted blobs for end-to-end encrypted shares
+		],
+		maxAttachmentSize:
+			Number(process.env.SHARE_MAX_ATTACHMENT_SIZE) || 2 * 1024 * 1024, // 2 MB
+		maxAttachments: Number(process.env.SHARE_MAX_ATTACHMENTS) || 10,
+		maxAttachmentsTotal:
+			Number(process.env.SHARE_MAX_ATTACHMENTS_TOTAL) || 10 * 1024 * 1024, // 10 MB per share
+		attachmentGracePeriod:
+			Number(process.env.SHARE_ATTACHMENT_GRACE_PERIOD) || 300, // seconds attachments outlive the last view
+		// Lifetime of the keys that let readers of protected notes load attachments
+		attachmentKeyTTL: Number(process.env.SHARE_ATTACHMENT_KEY_TTL) || 600, // 10 minutes
+		// HMAC key for attachment keys; like COLLAB_TOKEN_SECRET, share it
+		// between instances
+		keySecret: process.env.SHARE_KEY_SECRET || randomBytes(32).toString("hex"),
+		keySecretConfigured: Boolean(process.env.SHARE_KEY_SECRET),
 	},
 	cors: {
 		origin: ["https://zen.mrinmay.dev", "https://mrinmay.dev"],
-		methods: ["GET", "POST", "DELETE", "OPTIONS"],
+		methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
 		credentials: false,
 	},
 	rateLimit: {
@@ -80,15 +175,40 @@ const config: Config = {
 	},
 	websocket: {
 		path: "/collab",
+		yjsPath: "/collab/yjs",
 		heartbeatInterval:
 			Number(process.env.WEBSOCKET_HEARTBEAT_INTERVAL) || 30000,
 		maxConnections: Number(process.env.MAX_WEBSOCKET_CONNECTIONS) || 100,
+		maxConnectionsPerIp:
+			Number(process.env.MAX_WEBSOCKET_CONNECTIONS_PER_IP) || 10,
 	},
 	collaboration: {
 		sessionTTL: Number(process.env.COLLAB_SESSION_TTL) || 1800, // 30 minutes
 		maxParticipants: Number(process.env.MAX_PARTICIPANTS_PER_SESSION) || 10,
+		maxConnectionsPerSession:
+			Number(process.env.MAX_CONNECTIONS_PER_SESSION) || 20,
 		cleanupInterval: Number(process.env.COLLAB_CLEANUP_INTERVAL) || 60000, // 1 minute
+		compactionMaxUpdates:
+			Number(process.env.COLLAB_COMPACTION_MAX_UPDATES) || 500,
+		compactionMaxBytes:
+			Number(process.env.COLLAB_COMPACTION_MAX_BYTES) || 256 * 1024, // 256 KB
+		snapshotInterval:
+			Number(process.env.COLLAB_SNAPSHOT_INTERVAL) || 300000, // 5 minutes
+		maxSnapshots: Number(process.env.COLLAB_MAX_SNAPSHOTS) || 20, // per session
+		// Cap on how far sessions can be extended, counted from their creation
+		maxSessionLifetime:
+			Number(process.env.COLLAB_MAX_SESSION_LIFETIME) || 28800, // 8 hours
+		// Default for new sessions; hosts can switch it per session
+		autoRenew: process.env.COLLAB_AUTO_RENEW === "true",
+		// HMAC key for session access tokens. Must be shared by all instances;
+		// without it tokens only work on the instance that issued them
+		tokenSecret:
+			process.env.COLLAB_TOKEN_SECRET || randomBytes(32).toString("hex"),
+		tokenSecretConfigured: Boolean(process.env.COLLAB_TOKEN_SECRET),
 	},
 };
 
+// A default above the cap would turn away every share that omits expiresIn
+config.share.defaultTTL = Math.min(config.share.defaultTTL, config.share.maxTTL);
+
 export default config;
@@ -0,0 +1,217 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import {
+	type ShareAttachmentParams,
+	type ShareIdParams,
+	type SharedAttachmentQuery,
+	shareAttachmentParamsSchema,
+	shareIdSchema,
+	sharedAttachmentQuerySchema,
+} from "../schemas";
+import config from "../config";
+import {
+	type AttachmentMeta,
+	addAttachment,
+	getAttachment,
+	isPasswordProtected,
+	isShareOwner,
+	verifyAttachmentKey,
+} from "../services/notes";
+import {
+	baseMimeType,
+	isInlineType,
+	matchesMimeType,
+} from "../utils/attachments";
+import { contentDisposition, sanitizeFilename } from "../utils/export";
+import { generateToken } from "../utils/token";
+
+/**
+ * Decode the optional x-filename header (URI-encoded so any name fits in a header)
+ */
+function uploadFilename(header: unknown): string {
+	if (typeof header !== "string") {
+		return "";
+	}
+	try {
+		return sanitizeFilename(decodeURIComponent(header));
+	} catch {
+		return sanitizeFilename(header);
+	}
+}
+
+/**
+ * Routes for images and files attached to shared notes
+ */
+async function attachmentRoutes(fastify: FastifyInstance): Promise<void> {
+	// Uploads are sent as the raw request body; scoped to this plugin only
+	fastify.addContentTypeParser(
+		config.share.attachmentTypes,
+		{ parseAs: "buffer", bodyLimit: config.share.maxAttachmentSize },
+		(_request, body, done) => {
+			done(null, body);
+		},
+	);
+
+	// POST /api/shared/:shareId/attachments - Upload an attachment (owner only)
+	fastify.post<{
+		Params: ShareIdParams;
+		Body: Buffer;
+	}>(
+		"/api/shared/:shareId/attachments",
+		{
+			schema: {
+				params: shareIdSchema,
+			},
+			bodyLimit: config.share.maxAttachmentSize,
+		},
+		async (
+			request: FastifyRequest<{ Params: ShareIdParams; Body: Buffer }>,
+			reply: FastifyReply,
+		) => {
+			try {
+				const { shareId } = request.params;
+				const data = request.body;
+
+				if (
+					!(await isShareOwner(shareId, request.headers["x-management-token"]))
+				) {
+					fastify.log.warn(
+						{ shareId, reqId: request.id },
+						"Unauthorized attempt to upload attachment",
+					);
+					return reply.status(404).send({ error: "Note not found or expired" });
+				}
+
+				const contentType = baseMimeType(request.headers["content-type"]);
+				if (!Buffer.isBuffer(data) || data.length === 0) {
+					return reply.status(400).send({ error: "Attachment body is empty" });
+				}
+				if (!matchesMimeType(contentType, data)) {
+					return reply.status(415).send({
+						error: `Attachment content does not match ${contentType}`,
+					});
+				}
+
+				const meta: AttachmentMeta = {
+					id: generateToken(16),
+					filename: uploadFilename(request.headers["x-filename"]) || "attachment",
+					contentType,
+					size: data.length,
+					createdAt: new Date().toISOString(),
+				};
+
+				const status = await addAttachment(shareId, meta, data);
+				if (status === -1) {
+					return reply.status(404).send({ error: "Note not found or expired" });
+				}
+				if (status === 0) {
+					return reply.status(409).send({
+						error: `A shared note can have at most ${config.share.maxAttachments} attachments`,
+					});
+				}
+				if (status === -2) {
+					return reply.status(413).send({
+						error: `Attachments must not exceed ${config.share.maxAttachmentsTotal} bytes in total`,
+					});
+				}
+
+				fastify.log.info(
+					{
+						shareId,
+						attachmentId: meta.id,
+						contentType,
+						size: meta.size,
+						reqId: request.id,
+					},
+					"Attachment uploaded",
+				);
+
+				return {
+					...meta,
+					url: `/api/shared/${shareId}/attachments/${meta.id}`,
+				};
+			} catch (err) {
+				fastify.log.error(
+					{ err, shareId: request.params.shareId, reqId: request.id },
+					"Error in POST /api/shared/:shareId/attachments",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// GET /api/shared/:shareId/attachments/:attachmentId - Download an attachment
+	fastify.get<{
+		Params: ShareAttachmentParams;
+		Querystring: SharedAttachmentQuery;
+	}>(
+		"/api/shared/:shareId/attachments/:attachmentId",
+		{
+			schema: {
+				params: shareAttachmentParamsSchema,
+				querystring: sharedAttachmentQuerySchema,
+			},
+		},
+		async (
+			request: FastifyRequest<{
+				Params: ShareAttachmentParams;
+				Querystring: SharedAttachmentQuery;
+			}>,
+			reply: FastifyReply,
+		) => {
+			try {
+				const { shareId, attachmentId } = request.params;
+
+				// Attachments of protected notes need the key handed out on unlock
+				if (
+					(await isPasswordProtected(shareId)) &&
+					!verifyAttachmentKey(request.query.key, shareId)
+				) {
+					fastify.log.info(
+						{ shareId, attachmentId, reqId: request.id },
+						"Missing or invalid attachment key",
+					);
+					return reply
+						.status(401)
+						.send({ error: "Password required", passwordProtected: true });
+				}
+
+				// The unguessable attachment ID is only revealed through the note content
+				const attachment = await getAttachment(shareId, attachmentId);
+				if (!attachment) {
+					return reply
+						.status(404)
+						.send({ error: "Attachment not found or expired" });
+				}
+
+				const { meta, data } = attachment;
+				return reply
+					.header("Content-Type", meta.contentType)
+					.header(
+						"Content-Disposition",
+						contentDisposition(
+							meta.filename,
+							isInlineType(meta.contentType) ? "inline" : "attachment",
+						),
+					)
+					.header("Content-Length", data.length)
+					.header("X-Content-Type-Options", "nosniff")
+					.header("Content-Security-Policy", "default-src 'none'; sandbox")
+					.header("Cache-Control", "private, no-store")
+					.send(data);
+			} catch (err) {
+				fastify.log.error(
+					{
+						err,
+						shareId: request.params.shareId,
+						attachmentId: request.params.attachmentId,
+						reqId: request.id,
+					},
+					"Error in GET /api/shared/:shareId/attachments/:attachmentId",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+}
+
+export default attachmentRoutes;
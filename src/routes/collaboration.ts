@@ -2,33 +2,146 @@ import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { v4 as uuidv4 } from "uuid";
 import {
 	type CollabCreateBody,
+	type CollabExtendBody,
+	type CollabKickBody,
+	type CollabLockBody,
+	type CollabSnapshotBody,
+	type CollabSnapshotParams,
+	type CollabTransferHostBody,
 	type CollabJoinParams,
 	type CollabJoinBody,
 	type CollabSessionIdParams,
 	collabCreateSchema,
+	collabExtendSchema,
 	collabJoinSchema,
 	collabJoinBodySchema,
+	collabKickSchema,
+	collabLockSchema,
 	collabSessionIdSchema,
+	collabSnapshotParamsSchema,
+	collabSnapshotSchema,
+	collabTransferHostSchema,
 } from "../schemas";
+import type { ModerationAction } from "../services/collaboration";
+import {
+	deleteDocument,
+	documentText,
+} from "../services/collaborationDocuments";
+import {
+	type SessionMetadata,
+	canEditSession,
+	effectiveRole,
+	sessionLifetimeEnd,
+} from "../services/collaborationSessions";
+import { listSnapshots, loadSnapshot } from "../services/collaborationSnapshots";
+import {
+	type InviteRole,
+	type SessionTokenClaims,
+	canEdit,
+	issueInviteToken,
+	issueSessionToken,
+	verifyInviteToken,
+	verifySessionToken,
+} from "../services/collaborationTokens";
 import redisClient from "../utils/redis";
 import config from "../config";
-import { sanitizeInput } from "../utils/sanitizer";
-
-interface SessionMetadata {
-	noteId: string;
-	noteTitle: string;
-	noteContent: string;
-	creatorId: string;
-	hostId: string;
-	participants: string[];
-	createdAt: number;
-	expiresAt: number;
+import { sanitizeHtml, sanitizeInput } from "../utils/sanitizer";
+
+/**
+ * Verified session token of a request, sent in the x-session-token header
+ */
+function sessionTokenClaims(
+	sessionId: string,
+	request: FastifyRequest,
+): SessionTokenClaims | null {
+	return verifySessionToken(request.headers["x-session-token"], sessionId);
+}
+
+/**
+ * Link for opening a session in the client
+ */
+function collaborationUrl(request: FastifyRequest, sessionId: string): string {
+	return `${request.protocol}://${request.headers.host || "localhost:3000"}/collab/${sessionId}`;
+}
+
+/**
+ * Invite links of the session's current invite generation. They let the host
+ * hand out a role regardless of the default.
+ */
+function inviteUrls(
+	request: FastifyRequest,
+	sessionId: string,
+	session: SessionMetadata,
+): { editorInviteUrl: string; viewerInviteUrl: string } {
+	const generation = session.inviteGeneration ?? 0;
+	// Valid for as long as the session could be extended, like session tokens
+	const expiresAt = sessionLifetimeEnd(session);
+	const inviteUrl = (role: InviteRole) =>
+		`${collaborationUrl(request, sessionId)}?invite=${issueInviteToken(sessionId, role, generation, expiresAt)}`;
+	return {
+		editorInviteUrl: inviteUrl("editor"),
+		viewerInviteUrl: inviteUrl("viewer"),
+	};
 }
 
 /**
  * Collaboration-related routes
  */
 async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
+	/**
+	 * Carry out a host moderation action on behalf of the request's token holder
+	 */
+	async function moderate(
+		request: FastifyRequest<{ Params: CollabSessionIdParams }>,
+		reply: FastifyReply,
+		action: ModerationAction,
+	) {
+		const { sessionId } = request.params;
+		try {
+			const claims = sessionTokenClaims(sessionId, request);
+			if (!claims) {
+				return reply.status(401).send({ error: "Valid session token required" });
+			}
+
+			const { collaborationManager } = fastify;
+			const result = await collaborationManager.moderate(
+				sessionId,
+				claims.participantId,
+				action,
+			);
+			switch (result) {
+				case "ok": {
+					if (action.type !== "kick" || !action.ban) {
+						return { success: true };
+					}
+					// The ban revoked the earlier invites, so hand out new ones
+					const sessionData = await redisClient.get(`collab:session:${sessionId}`);
+					if (!sessionData) {
+						return { success: true };
+					}
+					const session: SessionMetadata = JSON.parse(sessionData);
+					return { success: true, ...inviteUrls(request, sessionId, session) };
+				}
+				case "not-found":
+					return reply.status(404).send({ error: "Session not found" });
+				case "not-host":
+					return reply
+						.status(403)
+						.send({ error: "Only the host can moderate the session" });
+				case "invalid-target":
+					return reply
+						.status(400)
+						.send({ error: "Participant cannot be the target of this action" });
+			}
+		} catch (err) {
+			fastify.log.error(
+				{ err, sessionId, action: action.type, reqId: request.id },
+				"Error applying moderation action",
+			);
+			return reply.status(500).send({ error: "Internal Server Error" });
+		}
+	}
+
 	// POST /api/collab/create - Create a new collaboration session
 	fastify.post<{
 		Body: CollabCreateBody;
@@ -44,24 +157,27 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 			reply: FastifyReply,
 		) => {
 			try {
-				const { noteTitle, noteContent } = request.body;
+				const { noteTitle, noteContent, defaultRole = "editor" } = request.body;
 				const sessionId = uuidv4();
-				const creatorId = request.ip || "unknown";
-				const hostId = request.ip || "unknown";
+				const hostId = uuidv4();
+				const creatorId = hostId;
 
-				// Sanitize the title but keep content as-is for collaboration
+				// Escape the title and strip unsafe markup from the initial content
 				const sanitizedTitle = sanitizeInput(noteTitle);
+				const sanitizedContent = sanitizeHtml(noteContent);
 
 				// Create session metadata
 				const session: SessionMetadata = {
 					noteId: sessionId, // Use sessionId as noteId for temporary collaboration
 					noteTitle: sanitizedTitle,
-					noteContent,
+					noteContent: sanitizedContent,
 					creatorId,
 					hostId,
+					defaultRole,
 					participants: [],
 					createdAt: Date.now(),
 					expiresAt: Date.now() + config.collaboration.sessionTTL * 1000,
+					autoRenew: config.collaboration.autoRenew,
 				};
 
 				// Store session in Redis with TTL
@@ -76,12 +192,23 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 					"Collaboration session created",
 				);
 
-				const collaborationUrl = `${request.protocol}://${request.headers.host || "localhost:3000"}/collab/${sessionId}`;
+				// Tokens stay valid for as long as the session could be extended
+				const tokenExpiresAt = sessionLifetimeEnd(session);
 
 				return {
 					sessionId,
-					collaborationUrl,
+					participantId: hostId,
+					hostToken: issueSessionToken(
+						sessionId,
+						hostId,
+						"host",
+						tokenExpiresAt,
+					),
+					collaborationUrl: collaborationUrl(request, sessionId),
+					...inviteUrls(request, sessionId, session),
 					websocketUrl: `ws://${request.headers.host || "localhost:3000"}${config.websocket.path}/${sessionId}`,
+					// y-websocket serverUrl; the session ID is the room name
+					yjsServerUrl: `ws://${request.headers.host || "localhost:3000"}${config.websocket.yjsPath}`,
 					expiresAt: session.expiresAt,
 				};
 			} catch (err) {
@@ -145,8 +272,11 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 					noteContent: session.noteContent,
 					isActive,
 					participantCount,
+					defaultRole: session.defaultRole ?? "editor",
 					createdAt: session.createdAt,
 					expiresAt: session.expiresAt,
+					maxExpiresAt: sessionLifetimeEnd(session),
+					autoRenew: session.autoRenew === true,
 				};
 			} catch (err) {
 				fastify.log.error(
@@ -176,7 +306,7 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 		) => {
 			try {
 				const { sessionId } = request.params;
-				const { participantName } = request.body;
+				const { participantName, role: requestedRole, invite } = request.body;
 
 				// Validate session exists and not expired
 				const sessionData = await redisClient.get(
@@ -198,8 +328,40 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 					return reply.status(410).send({ error: "Session expired" });
 				}
 
+				// A banned participant could join again under a new identity, so
+				// once the host has banned someone only invited participants may join
+				if (session.bannedParticipants?.length && !invite) {
+					return reply
+						.status(403)
+						.send({ error: "This session only accepts invited participants" });
+				}
+
+				// Anyone may join as a viewer; editing needs an editor invite unless
+				// the session lets everyone edit
+				let role: InviteRole = session.defaultRole ?? "editor";
+				if (invite) {
+					const inviteClaims = verifyInviteToken(
+						invite,
+						sessionId,
+						session.inviteGeneration ?? 0,
+					);
+					if (!inviteClaims) {
+						return reply.status(401).send({ error: "Invalid or expired invite" });
+					}
+					role = inviteClaims.role;
+				}
+				if (requestedRole === "viewer") {
+					role = "viewer";
+				} else if (requestedRole === "editor" && role !== "editor") {
+					return reply
+						.status(403)
+						.send({ error: "Editing this session requires an editor invite" });
+				}
+
+				const participantId = uuidv4();
+
 				fastify.log.info(
-					{ sessionId, participantName, reqId: request.id },
+					{ sessionId, participantId, participantName, role, reqId: request.id },
 					"Participant joining collaboration session",
 				);
 
@@ -207,9 +369,18 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 					success: true,
 					sessionData: {
 						sessionId,
+						participantId,
+						role,
+						participantToken: issueSessionToken(
+							sessionId,
+							participantId,
+							role,
+							sessionLifetimeEnd(session),
+						),
 						noteTitle: session.noteTitle,
 						noteContent: session.noteContent,
 						websocketUrl: `ws://${request.headers.host || "localhost:3000"}${config.websocket.path}/${sessionId}`,
+						yjsServerUrl: `ws://${request.headers.host || "localhost:3000"}${config.websocket.yjsPath}`,
 						expiresAt: session.expiresAt,
 					},
 				};
@@ -239,7 +410,11 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 		) => {
 			try {
 				const { sessionId } = request.params;
-				const participantId = request.ip || "unknown";
+				const claims = sessionTokenClaims(sessionId, request);
+				if (!claims) {
+					return reply.status(401).send({ error: "Valid session token required" });
+				}
+				const { participantId } = claims;
 
 				// Check if session exists
 				const sessionData = await redisClient.get(
@@ -253,8 +428,8 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 					return reply.status(404).send({ error: "Session not found" });
 				}
 
-				// Clean up participant presence
-				await redisClient.del(`collab:presence:${sessionId}:${participantId}`);
+				// Presence belongs to the participant's WebSocket connections and is
+				// removed when the last of them closes
 
 				fastify.log.info(
 					{ sessionId, participantId, reqId: request.id },
@@ -272,7 +447,7 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 		},
 	);
 
-	// DELETE /api/collab/session/:sessionId - End a collaboration session (creator only)
+	// DELETE /api/collab/session/:sessionId - End a collaboration session (host only)
 	fastify.delete<{
 		Params: CollabSessionIdParams;
 	}>(
@@ -288,7 +463,11 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 		) => {
 			try {
 				const { sessionId } = request.params;
-				const requesterId = request.ip || "unknown";
+				const claims = sessionTokenClaims(sessionId, request);
+				if (!claims) {
+					return reply.status(401).send({ error: "Valid session token required" });
+				}
+				const requesterId = claims.participantId;
 
 				// Check if session exists and validate creator
 				const sessionData = await redisClient.get(
@@ -304,18 +483,18 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 
 				const session: SessionMetadata = JSON.parse(sessionData);
 				
-				// Only allow session creator to end the session
-				if (session.creatorId !== requesterId) {
+				// Only allow the session's host to end the session
+				if (session.hostId !== requesterId) {
 					fastify.log.warn(
-						{ sessionId, requesterId, creatorId: session.creatorId, reqId: request.id },
+						{ sessionId, requesterId, hostId: session.hostId, reqId: request.id },
 						"Unauthorized attempt to end session",
 					);
-					return reply.status(403).send({ error: "Only session creator can end the session" });
+					return reply.status(403).send({ error: "Only the host can end the session" });
 				}
 
 				// Clean up session data
 				await redisClient.del(`collab:session:${sessionId}`);
-				await redisClient.del(`collab:doc:${sessionId}`);
+				await deleteDocument(sessionId);
 
 				// Clean up presence data
 				const keys = await redisClient.keys(`collab:presence:${sessionId}:*`);
@@ -325,7 +504,7 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 
 				fastify.log.info(
 					{ sessionId, reqId: request.id },
-					"Collaboration session ended by creator",
+					"Collaboration session ended by host",
 				);
 
 				return { success: true };
@@ -339,6 +518,329 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 		},
 	);
 
+	// POST /api/collab/session/:sessionId/kick - Remove a participant (host only)
+	fastify.post<{
+		Params: CollabSessionIdParams;
+		Body: CollabKickBody;
+	}>(
+		"/api/collab/session/:sessionId/kick",
+		{
+			schema: {
+				params: collabSessionIdSchema,
+				body: collabKickSchema,
+			},
+		},
+		async (request, reply) =>
+			moderate(request, reply, {
+				type: "kick",
+				participantId: request.body.participantId,
+				ban: request.body.ban === true,
+			}),
+	);
+
+	// POST /api/collab/session/:sessionId/lock - Lock or unlock editing (host only)
+	fastify.post<{
+		Params: CollabSessionIdParams;
+		Body: CollabLockBody;
+	}>(
+		"/api/collab/session/:sessionId/lock",
+		{
+			schema: {
+				params: collabSessionIdSchema,
+				body: collabLockSchema,
+			},
+		},
+		async (request, reply) =>
+			moderate(request, reply, {
+				type: request.body.locked ? "lock" : "unlock",
+			}),
+	);
+
+	// POST /api/collab/session/:sessionId/host - Hand host rights to another participant
+	fastify.post<{
+		Params: CollabSessionIdParams;
+		Body: CollabTransferHostBody;
+	}>(
+		"/api/collab/session/:sessionId/host",
+		{
+			schema: {
+				params: collabSessionIdSchema,
+				body: collabTransferHostSchema,
+			},
+		},
+		async (request, reply) =>
+			moderate(request, reply, {
+				type: "transfer-host",
+				participantId: request.body.participantId,
+			}),
+	);
+
+	// POST /api/collab/session/:sessionId/extend - Extend the session (host only)
+	fastify.post<{
+		Params: CollabSessionIdParams;
+		Body: CollabExtendBody;
+	}>(
+		"/api/collab/session/:sessionId/extend",
+		{
+			schema: {
+				params: collabSessionIdSchema,
+				body: collabExtendSchema,
+			},
+		},
+		async (request, reply) => {
+			const { sessionId } = request.params;
+			try {
+				const claims = sessionTokenClaims(sessionId, request);
+				if (!claims) {
+					return reply.status(401).send({ error: "Valid session token required" });
+				}
+
+				const { seconds = config.collaboration.sessionTTL, autoRenew } =
+					request.body;
+				const { collaborationManager } = fastify;
+				const result = await collaborationManager.extendSession(
+					sessionId,
+					claims.participantId,
+					seconds,
+					autoRenew,
+				);
+				switch (result.status) {
+					case "ok":
+						return {
+							success: true,
+							expiresAt: result.expiresAt,
+							maxExpiresAt: result.maxExpiresAt,
+							autoRenew: result.autoRenew,
+						};
+					case "not-found":
+						return reply.status(404).send({ error: "Session not found" });
+					case "not-host":
+						return reply
+							.status(403)
+							.send({ error: "Only the host can extend the session" });
+				}
+			} catch (err) {
+				fastify.log.error(
+					{ err, sessionId, reqId: request.id },
+					"Error in POST /api/collab/session/:sessionId/extend",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// POST /api/collab/session/:sessionId/snapshots - Save a named snapshot
+	fastify.post<{
+		Params: CollabSessionIdParams;
+		Body: CollabSnapshotBody;
+	}>(
+		"/api/collab/session/:sessionId/snapshots",
+		{
+			schema: {
+				params: collabSessionIdSchema,
+				body: collabSnapshotSchema,
+			},
+		},
+		async (request, reply) => {
+			const { sessionId } = request.params;
+			try {
+				const claims = sessionTokenClaims(sessionId, request);
+				if (!claims) {
+					return reply.status(401).send({ error: "Valid session token required" });
+				}
+
+				const sessionData = await redisClient.get(`collab:session:${sessionId}`);
+				if (!sessionData) {
+					return reply.status(404).send({ error: "Session not found" });
+				}
+				const session: SessionMetadata = JSON.parse(sessionData);
+				if (!canEdit(effectiveRole(session, claims.participantId, claims.role))) {
+					return reply.status(403).send({ error: "Viewers cannot save snapshots" });
+				}
+
+				const { collaborationManager } = fastify;
+				const snapshot = await collaborationManager.createSnapshot(
+					sessionId,
+					sanitizeInput(request.body.name),
+					claims.participantId,
+					session.expiresAt,
+				);
+				if (!snapshot) {
+					return reply.status(404).send({ error: "Session document not found" });
+				}
+				return reply.status(201).send({ snapshot });
+			} catch (err) {
+				fastify.log.error(
+					{ err, sessionId, reqId: request.id },
+					"Error in POST /api/collab/session/:sessionId/snapshots",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// GET /api/collab/session/:sessionId/snapshots - List snapshots, newest first
+	fastify.get<{
+		Params: CollabSessionIdParams;
+	}>(
+		"/api/collab/session/:sessionId/snapshots",
+		{
+			schema: {
+				params: collabSessionIdSchema,
+			},
+		},
+		async (request, reply) => {
+			const { sessionId } = request.params;
+			try {
+				if (!sessionTokenClaims(sessionId, request)) {
+					return reply.status(401).send({ error: "Valid session token required" });
+				}
+				return { snapshots: await listSnapshots(sessionId) };
+			} catch (err) {
+				fastify.log.error(
+					{ err, sessionId, reqId: request.id },
+					"Error in GET /api/collab/session/:sessionId/snapshots",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// GET /api/collab/session/:sessionId/snapshots/:snapshotId - Preview a snapshot
+	fastify.get<{
+		Params: CollabSnapshotParams;
+	}>(
+		"/api/collab/session/:sessionId/snapshots/:snapshotId",
+		{
+			schema: {
+				params: collabSnapshotParamsSchema,
+			},
+		},
+		async (request, reply) => {
+			const { sessionId, snapshotId } = request.params;
+			try {
+				if (!sessionTokenClaims(sessionId, request)) {
+					return reply.status(401).send({ error: "Valid session token required" });
+				}
+
+				const snapshot = await loadSnapshot(sessionId, snapshotId);
+				if (!snapshot) {
+					return reply.status(404).send({ error: "Snapshot not found" });
+				}
+				return {
+					snapshot: snapshot.info,
+					content: documentText(snapshot.state),
+				};
+			} catch (err) {
+				fastify.log.error(
+					{ err, sessionId, snapshotId, reqId: request.id },
+					"Error in GET /api/collab/session/:sessionId/snapshots/:snapshotId",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// POST /api/collab/session/:sessionId/snapshots/:snapshotId/restore - Restore a snapshot
+	fastify.post<{
+		Params: CollabSnapshotParams;
+	}>(
+		"/api/collab/session/:sessionId/snapshots/:snapshotId/restore",
+		{
+			schema: {
+				params: collabSnapshotParamsSchema,
+			},
+		},
+		async (request, reply) => {
+			const { sessionId, snapshotId } = request.params;
+			try {
+				const claims = sessionTokenClaims(sessionId, request);
+				if (!claims) {
+					return reply.status(401).send({ error: "Valid session token required" });
+				}
+
+				const sessionData = await redisClient.get(`collab:session:${sessionId}`);
+				if (!sessionData) {
+					return reply.status(404).send({ error: "Session not found" });
+				}
+				const session: SessionMetadata = JSON.parse(sessionData);
+				const role = effectiveRole(session, claims.participantId, claims.role);
+				if (!canEditSession(session, role)) {
+					return reply
+						.status(403)
+						.send({ error: "Not allowed to edit this session" });
+				}
+
+				const { collaborationManager } = fastify;
+				const snapshot = await collaborationManager.restoreSnapshot(
+					sessionId,
+					snapshotId,
+					claims.participantId,
+					session.expiresAt,
+				);
+				if (!snapshot) {
+					return reply.status(404).send({ error: "Snapshot not found" });
+				}
+				return { success: true, snapshot };
+			} catch (err) {
+				fastify.log.error(
+					{ err, sessionId, snapshotId, reqId: request.id },
+					"Error in POST /api/collab/session/:sessionId/snapshots/:snapshotId/restore",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// GET /api/collab/session/:sessionId/authorship - Note text annotated with its authors
+	fastify.get<{
+		Params: CollabSessionIdParams;
+	}>(
+		"/api/collab/session/:sessionId/authorship",
+		{
+			schema: {
+				params: collabSessionIdSchema,
+			},
+		},
+		async (request, reply) => {
+			const { sessionId } = request.params;
+			try {
+				if (!sessionTokenClaims(sessionId, request)) {
+					return reply.status(401).send({ error: "Valid session token required" });
+				}
+
+				const { collaborationManager } = fastify;
+				const runs = await collaborationManager.getSessionAuthorship(sessionId);
+				if (!runs) {
+					return reply.status(404).send({ error: "Session content not found" });
+				}
+
+				// Characters currently in the note per participant
+				const contributors = new Map<
+					string | null,
+					{ participantId: string | null; name: string | null; characters: number }
+				>();
+				for (const { participantId, name, text } of runs) {
+					const contributor = contributors.get(participantId) ?? {
+						participantId,
+						name,
+						characters: 0,
+					};
+					contributor.characters += text.length;
+					contributors.set(participantId, contributor);
+				}
+
+				return { runs, contributors: Array.from(contributors.values()) };
+			} catch (err) {
+				fastify.log.error(
+					{ err, sessionId, reqId: request.id },
+					"Error in GET /api/collab/session/:sessionId/authorship",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
 	// Legacy route support - POST /api/collab/start/:noteId (deprecated but kept for compatibility)
 	fastify.post(
 		"/api/collab/start/:noteId",
@@ -400,6 +902,9 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 		) => {
 			try {
 				const { sessionId } = request.params;
+				if (!sessionTokenClaims(sessionId, request)) {
+					return reply.status(401).send({ error: "Valid session token required" });
+				}
 
 				// Validate session exists
 				const sessionData = await redisClient.get(
@@ -412,8 +917,8 @@ async function collaborationRoutes(fastify: FastifyInstance): Promise<void> {
 				const session: SessionMetadata = JSON.parse(sessionData);
 				
 				// Get current document content from collaboration manager
-				const collaborationManager = (fastify as any).collaborationManager;
-				const content = await collaborationManager?.getSessionContent(sessionId);
+				const content =
+					await fastify.collaborationManager.getSessionContent(sessionId);
 
 				return {
 					sessionId,
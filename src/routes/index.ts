@@ -1,6 +1,8 @@
 import type { FastifyInstance } from "fastify";
 import healthRoutes from "./health";
 import notesRoutes from "./notes";
+import attachmentRoutes from "./attachments";
+import sharePageRoutes from "./sharePage";
 import collaborationRoutes from "./collaboration";
 
 /**
@@ -13,6 +15,12 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
 	// Register notes routes
 	await fastify.register(notesRoutes);
 
+	// Register shared note attachment routes
+	await fastify.register(attachmentRoutes);
+
+	// Register public share pages
+	await fastify.register(sharePageRoutes);
+
 	// Register collaboration routes
 	await fastify.register(collaborationRoutes);
 }
@@ -1,23 +1,258 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import {
 	type ShareBody,
+	type ShareBundleItem,
+	type ShareBundleParams,
 	type ShareIdParams,
+	type ShareUnlockBody,
+	type ShareUpdateBody,
+	type SharedNoteQuery,
+	shareBundleParamsSchema,
 	shareIdSchema,
 	shareSchema,
+	shareUnlockSchema,
+	shareUpdateSchema,
+	sharedNoteQuerySchema,
 } from "../schemas";
+import config from "../config";
+import {
+	type Note,
+	type NoteBody,
+	checkNotePassword,
+	deleteNote,
+	findNote,
+	getNoteStats,
+	isShareOwner,
+	issueAttachmentKey,
+	listAttachments,
+	loadNote,
+	noteKeys,
+	readNote,
+	replaceNote,
+	withAttachmentKey,
+} from "../services/notes";
+import {
+	type ExportedNote,
+	bundleToHtml,
+	contentDisposition,
+	exportNote,
+} from "../utils/export";
+import { hashPassword } from "../utils/password";
 import redisClient from "../utils/redis";
-import { sanitizeInput } from "../utils/sanitizer";
+import { sanitizeHtml, sanitizeInput } from "../utils/sanitizer";
+import { generateToken, hashToken } from "../utils/token";
+
+/**
+ * Check the management token sent in the x-management-token header
+ */
+function isOwnerRequest(
+	shareId: string,
+	request: FastifyRequest,
+): Promise<boolean> {
+	return isShareOwner(shareId, request.headers["x-management-token"]);
+}
+
+/**
+ * Reply with an exported note as a file download
+ */
+function sendExport(reply: FastifyReply, exported: ExportedNote): FastifyReply {
+	return reply
+		.header("Content-Type", exported.contentType)
+		.header("Content-Disposition", contentDisposition(exported.filename))
+		.header("X-Content-Type-Options", "nosniff")
+		.send(exported.body);
+}
+
+/**
+ * Turn a validated share or update body into the stored note body. Titles
+ * are escaped and content runs through the HTML allowlist; encrypted
+ * payloads are stored untouched.
+ */
+function toNoteBody({
+	title,
+	content,
+	encrypted,
+	notes,
+}: ShareUpdateBody): NoteBody {
+	if (encrypted) {
+		return { mode: "encrypted", encrypted };
+	}
+	if (notes) {
+		return {
+			mode: "bundle",
+			title: sanitizeInput(title ?? ""),
+			notes: notes.map((item) => ({
+				title: sanitizeInput(item.title),
+				content: sanitizeHtml(item.content),
+			})),
+		};
+	}
+	return {
+		mode: "plain",
+		title: sanitizeInput(title ?? ""),
+		content: sanitizeHtml(content ?? ""),
+	};
+}
 
-interface Note {
-	title: string;
-	content: string;
-	createdAt: string;
+/**
+ * Total content size of a bundle, checked against config.share.maxBundleSize
+ */
+function bundleSize(notes: ShareBundleItem[]): number {
+	return notes.reduce(
+		(total, item) => total + item.title.length + item.content.length,
+		0,
+	);
+}
+
+/**
+ * Size of a note body for logging
+ */
+function noteSize(body: NoteBody): number {
+	switch (body.mode) {
+		case "encrypted":
+			return body.encrypted.ciphertext.length;
+		case "bundle":
+			return bundleSize(body.notes);
+		default:
+			return body.title.length + body.content.length;
+	}
 }
 
 /**
  * Notes-related routes
  */
 async function notesRoutes(fastify: FastifyInstance): Promise<void> {
+	/**
+	 * Read a shared note, spending a view, and reply with it as JSON or as
+	 * an exported document depending on the format query parameter.
+	 * With an index, only that note of a bundle is returned.
+	 */
+	async function sendNote(
+		request: FastifyRequest<{
+			Params: ShareIdParams;
+			Querystring: SharedNoteQuery;
+		}>,
+		reply: FastifyReply,
+		message: string,
+		index?: number,
+	) {
+		const { shareId } = request.params;
+		const { version, format = "json" } = request.query;
+
+		// Reject requests that cannot be served before a view is spent
+		const target = await findNote(shareId, version);
+		if (
+			!target ||
+			(index !== undefined &&
+				(target.mode !== "bundle" || index >= target.notes.length))
+		) {
+			fastify.log.info(
+				{ shareId, version, index, reqId: request.id },
+				"Note not found or expired",
+			);
+			return reply.status(404).send({ error: "Note not found or expired" });
+		}
+
+		// Encrypted notes can only be converted by the client
+		if (format !== "json" && target.mode === "encrypted") {
+			return reply.status(400).send({
+				error: "Encrypted notes can only be exported as JSON",
+			});
+		}
+
+		const result = await readNote(shareId, version);
+		if (!result) {
+			fastify.log.info(
+				{ shareId, version, reqId: request.id },
+				"Note not found or expired",
+			);
+			return reply.status(404).send({ error: "Note not found or expired" });
+		}
+
+		const { remainingViews } = result;
+		// Browsers fetch attachments without the password, so hand out a key
+		const attachmentKey = result.note.passwordProtected
+			? issueAttachmentKey(shareId)
+			: undefined;
+		const note = attachmentKey
+			? withAttachmentKey(result.note, shareId, attachmentKey)
+			: result.note;
+		const keyField = attachmentKey ? { attachmentKey } : {};
+		fastify.log.info(
+			{
+				shareId,
+				version: note.version,
+				index,
+				format,
+				remainingViews,
+				reqId: request.id,
+			},
+			message,
+		);
+
+		if (index !== undefined) {
+			const item = note.mode === "bundle" ? note.notes[index] : undefined;
+			if (!item || note.mode !== "bundle") {
+				return reply.status(404).send({ error: "Note not found or expired" });
+			}
+			if (format === "json") {
+				return {
+					...item,
+					index,
+					count: note.notes.length,
+					bundleTitle: note.title,
+					version: note.version,
+					expiresAt: note.expiresAt,
+					remainingViews,
+					...keyField,
+				};
+			}
+			return sendExport(reply, exportNote(item.title, item.content, format));
+		}
+
+		if (format === "json" || note.mode === "encrypted") {
+			return { ...note, remainingViews, ...keyField };
+		}
+
+		const html = note.mode === "bundle" ? bundleToHtml(note.notes) : note.content;
+		return sendExport(reply, exportNote(note.title, html, format));
+	}
+
+	/**
+	 * Check the password sent to an unlock route, then reply like sendNote
+	 */
+	async function sendUnlockedNote(
+		request: FastifyRequest<{
+			Params: ShareIdParams;
+			Querystring: SharedNoteQuery;
+			Body: ShareUnlockBody;
+		}>,
+		reply: FastifyReply,
+		message: string,
+		index?: number,
+	) {
+		const { shareId } = request.params;
+		const status = await checkNotePassword(shareId, request.body.password);
+		if (status === "locked") {
+			fastify.log.warn(
+				{ shareId, reqId: request.id },
+				"Too many password attempts for shared note",
+			);
+			return reply.status(429).send({
+				error: "Too many failed password attempts, try again later",
+			});
+		}
+		if (status === "invalid") {
+			fastify.log.info(
+				{ shareId, reqId: request.id },
+				"Invalid password for shared note",
+			);
+			return reply.status(401).send({ error: "Invalid password" });
+		}
+
+		return await sendNote(request, reply, message, index);
+	}
+
 	// POST /api/share - Create a new shared note
 	fastify.post<{
 		Body: ShareBody;
@@ -33,10 +268,25 @@ async function notesRoutes(fastify: FastifyInstance): Promise<void> {
 			reply: FastifyReply,
 		) => {
 			try {
-				const { title, content } = request.body;
+				const { notes, expiresIn, burnAfterReading, maxViews, password } =
+					request.body;
+
+				const ttl = expiresIn ?? config.share.defaultTTL;
 
-				// Sanitize only the title. Accept raw HTML for content.
-				const sanitizedTitle = sanitizeInput(title);
+				if (burnAfterReading && maxViews != null && maxViews !== 1) {
+					return reply.status(400).send({
+						error: "burnAfterReading cannot be combined with maxViews",
+					});
+				}
+				const viewLimit = burnAfterReading ? 1 : (maxViews ?? null);
+
+				if (notes && bundleSize(notes) > config.share.maxBundleSize) {
+					return reply.status(413).send({
+						error: `Bundle content must not exceed ${config.share.maxBundleSize} characters in total`,
+					});
+				}
+
+				const body = toNoteBody(request.body);
 
 				const { customAlphabet } = await import("nanoid");
 				const generateShareId = customAlphabet(
@@ -44,23 +294,54 @@ async function notesRoutes(fastify: FastifyInstance): Promise<void> {
 					8,
 				);
 				const shareId = generateShareId();
-				const redisKey = `note:${shareId}`;
+				const keys = noteKeys(shareId);
+				const now = Date.now();
 				const note: Note = {
-					title: sanitizedTitle,
-					content: content,
-					createdAt: new Date().toISOString(),
+					...body,
+					createdAt: new Date(now).toISOString(),
+					updatedAt: new Date(now).toISOString(),
+					version: 1,
+					expiresAt: new Date(now + ttl * 1000).toISOString(),
+					maxViews: viewLimit,
+					passwordProtected: password != null,
 				};
 
-				// Store as plain string with 60s TTL
-				await redisClient.set(redisKey, JSON.stringify(note), 60);
+				const managementToken = generateToken();
+
+				// Store the view budget, password hash and owner token first so the
+				// note is never readable without them
+				await redisClient.setCounter(keys.viewCount, 0, ttl);
+				await redisClient.set(keys.owner, hashToken(managementToken), ttl);
+				if (viewLimit !== null) {
+					await redisClient.setCounter(keys.views, viewLimit, ttl);
+				}
+				if (password != null) {
+					await redisClient.set(
+						keys.password,
+						await hashPassword(password),
+						ttl,
+					);
+				}
+
+				// Store as plain string with the requested TTL
+				await redisClient.set(keys.note, JSON.stringify(note), ttl);
 
 				fastify.log.info(
-					{ shareId, titleLength: title.length, contentLength: content.length },
+					{
+						shareId,
+						ttl,
+						maxViews: viewLimit,
+						passwordProtected: note.passwordProtected,
+						mode: note.mode,
+						size: noteSize(note),
+					},
 					"Note shared successfully",
 				);
 
 				return {
 					sharePath: `/share/${shareId}`,
+					expiresAt: note.expiresAt,
+					managementToken,
 				};
 			} catch (err) {
 				fastify.log.error(
@@ -75,8 +356,259 @@ async function notesRoutes(fastify: FastifyInstance): Promise<void> {
 	// GET /api/shared/:shareId - Retrieve a shared note
 	fastify.get<{
 		Params: ShareIdParams;
+		Querystring: SharedNoteQuery;
+	}>(
+		"/api/shared/:shareId",
+		{
+			schema: {
+				params: shareIdSchema,
+				querystring: sharedNoteQuerySchema,
+			},
+		},
+		async (
+			request: FastifyRequest<{
+				Params: ShareIdParams;
+				Querystring: SharedNoteQuery;
+			}>,
+			reply: FastifyReply,
+		) => {
+			try {
+				const { shareId } = request.params;
+
+				// Password-protected notes are only served through the unlock route
+				const passwordHash = await redisClient.get(noteKeys(shareId).password);
+				if (passwordHash) {
+					return reply
+						.status(401)
+						.send({ error: "Password required", passwordProtected: true });
+				}
+
+				// Read and spend a view in one step so a one-time note is served only once
+				return await sendNote(request, reply, "Note retrieved successfully");
+			} catch (err) {
+				fastify.log.error(
+					{ err, shareId: request.params.shareId, reqId: request.id },
+					"Error in GET /api/shared/:shareId",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// POST /api/shared/:shareId/unlock - Retrieve a password-protected shared note
+	fastify.post<{
+		Params: ShareIdParams;
+		Querystring: SharedNoteQuery;
+		Body: ShareUnlockBody;
+	}>(
+		"/api/shared/:shareId/unlock",
+		{
+			schema: {
+				params: shareIdSchema,
+				querystring: sharedNoteQuerySchema,
+				body: shareUnlockSchema,
+			},
+		},
+		async (
+			request: FastifyRequest<{
+				Params: ShareIdParams;
+				Querystring: SharedNoteQuery;
+				Body: ShareUnlockBody;
+			}>,
+			reply: FastifyReply,
+		) => {
+			try {
+				return await sendUnlockedNote(
+					request,
+					reply,
+					"Protected note unlocked successfully",
+				);
+			} catch (err) {
+				fastify.log.error(
+					{ err, shareId: request.params.shareId, reqId: request.id },
+					"Error in POST /api/shared/:shareId/unlock",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// GET /api/shared/:shareId/notes/:index - Retrieve a single note of a bundle
+	fastify.get<{
+		Params: ShareBundleParams;
+		Querystring: SharedNoteQuery;
+	}>(
+		"/api/shared/:shareId/notes/:index",
+		{
+			schema: {
+				params: shareBundleParamsSchema,
+				querystring: sharedNoteQuerySchema,
+			},
+		},
+		async (
+			request: FastifyRequest<{
+				Params: ShareBundleParams;
+				Querystring: SharedNoteQuery;
+			}>,
+			reply: FastifyReply,
+		) => {
+			try {
+				const { shareId, index } = request.params;
+
+				// Password-protected bundles are only served through the unlock routes
+				const passwordHash = await redisClient.get(noteKeys(shareId).password);
+				if (passwordHash) {
+					return reply
+						.status(401)
+						.send({ error: "Password required", passwordProtected: true });
+				}
+
+				return await sendNote(
+					request,
+					reply,
+					"Bundle note retrieved successfully",
+					index,
+				);
+			} catch (err) {
+				fastify.log.error(
+					{ err, shareId: request.params.shareId, reqId: request.id },
+					"Error in GET /api/shared/:shareId/notes/:index",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// POST /api/shared/:shareId/notes/:index/unlock - Retrieve a single note of a password-protected bundle
+	fastify.post<{
+		Params: ShareBundleParams;
+		Querystring: SharedNoteQuery;
+		Body: ShareUnlockBody;
+	}>(
+		"/api/shared/:shareId/notes/:index/unlock",
+		{
+			schema: {
+				params: shareBundleParamsSchema,
+				querystring: sharedNoteQuerySchema,
+				body: shareUnlockSchema,
+			},
+		},
+		async (
+			request: FastifyRequest<{
+				Params: ShareBundleParams;
+				Querystring: SharedNoteQuery;
+				Body: ShareUnlockBody;
+			}>,
+			reply: FastifyReply,
+		) => {
+			try {
+				return await sendUnlockedNote(
+					request,
+					reply,
+					"Protected bundle note unlocked successfully",
+					request.params.index,
+				);
+			} catch (err) {
+				fastify.log.error(
+					{ err, shareId: request.params.shareId, reqId: request.id },
+					"Error in POST /api/shared/:shareId/notes/:index/unlock",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// PUT /api/shared/:shareId - Update a shared note in place (owner only)
+	fastify.put<{
+		Params: ShareIdParams;
+		Body: ShareUpdateBody;
 	}>(
 		"/api/shared/:shareId",
+		{
+			schema: {
+				params: shareIdSchema,
+				body: shareUpdateSchema,
+			},
+		},
+		async (
+			request: FastifyRequest<{ Params: ShareIdParams; Body: ShareUpdateBody }>,
+			reply: FastifyReply,
+		) => {
+			try {
+				const { shareId } = request.params;
+				const { notes } = request.body;
+				const keys = noteKeys(shareId);
+
+				if (!(await isOwnerRequest(shareId, request))) {
+					fastify.log.warn(
+						{ shareId, reqId: request.id },
+						"Unauthorized attempt to update shared note",
+					);
+					return reply.status(404).send({ error: "Note not found or expired" });
+				}
+
+				const stored = await loadNote(shareId);
+				if (!stored) {
+					return reply.status(404).send({ error: "Note not found or expired" });
+				}
+
+				if (notes && bundleSize(notes) > config.share.maxBundleSize) {
+					return reply.status(413).send({
+						error: `Bundle content must not exceed ${config.share.maxBundleSize} characters in total`,
+					});
+				}
+
+				const current = stored.note;
+				const body = toNoteBody(request.body);
+				if (body.mode !== current.mode) {
+					return reply.status(400).send({
+						error: "A shared note cannot change between plain, encrypted and bundle mode",
+					});
+				}
+
+				const updated: Note = {
+					...current,
+					...body,
+					version: current.version + 1,
+					updatedAt: new Date().toISOString(),
+				};
+
+				const status = await replaceNote(shareId, stored.raw, updated);
+				if (status < 0) {
+					return reply.status(404).send({ error: "Note not found or expired" });
+				}
+				if (status === 0) {
+					return reply.status(409).send({
+						error: "Note was modified concurrently, please retry",
+					});
+				}
+
+				fastify.log.info(
+					{ shareId, version: updated.version, reqId: request.id },
+					"Shared note updated",
+				);
+
+				return {
+					sharePath: `/share/${shareId}`,
+					version: updated.version,
+					updatedAt: updated.updatedAt,
+					expiresAt: updated.expiresAt,
+				};
+			} catch (err) {
+				fastify.log.error(
+					{ err, shareId: request.params.shareId, reqId: request.id },
+					"Error in PUT /api/shared/:shareId",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// GET /api/shared/:shareId/meta - Share metadata for the owner
+	fastify.get<{
+		Params: ShareIdParams;
+	}>(
+		"/api/shared/:shareId/meta",
 		{
 			schema: {
 				params: shareIdSchema,
@@ -88,28 +620,79 @@ async function notesRoutes(fastify: FastifyInstance): Promise<void> {
 		) => {
 			try {
 				const { shareId } = request.params;
-				const redisKey = `note:${shareId}`;
 
-				const data = await redisClient.get(redisKey);
+				if (!(await isOwnerRequest(shareId, request))) {
+					return reply.status(404).send({ error: "Note not found or expired" });
+				}
+
+				const stats = await getNoteStats(shareId);
+				if (!stats) {
+					return reply.status(404).send({ error: "Note not found or expired" });
+				}
+
+				const { note, viewCount, remainingViews } = stats;
+				const attachments = await listAttachments(shareId);
+				return {
+					shareId,
+					mode: note.mode,
+					createdAt: note.createdAt,
+					updatedAt: note.updatedAt,
+					version: note.version,
+					expiresAt: note.expiresAt,
+					maxViews: note.maxViews,
+					viewCount,
+					remainingViews,
+					passwordProtected: note.passwordProtected,
+					attachments,
+				};
+			} catch (err) {
+				fastify.log.error(
+					{ err, shareId: request.params.shareId, reqId: request.id },
+					"Error in GET /api/shared/:shareId/meta",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// DELETE /api/shared/:shareId - Revoke a shared note (owner only)
+	fastify.delete<{
+		Params: ShareIdParams;
+	}>(
+		"/api/shared/:shareId",
+		{
+			schema: {
+				params: shareIdSchema,
+			},
+		},
+		async (
+			request: FastifyRequest<{ Params: ShareIdParams }>,
+			reply: FastifyReply,
+		) => {
+			try {
+				const { shareId } = request.params;
 
-				if (!data) {
-					fastify.log.info(
+				// Unknown notes and wrong tokens look the same to the caller
+				if (!(await isOwnerRequest(shareId, request))) {
+					fastify.log.warn(
 						{ shareId, reqId: request.id },
-						"Note not found or expired",
+						"Unauthorized attempt to revoke shared note",
 					);
 					return reply.status(404).send({ error: "Note not found or expired" });
 				}
 
-				const note: Note = JSON.parse(data);
+				await deleteNote(shareId);
+
 				fastify.log.info(
 					{ shareId, reqId: request.id },
-					"Note retrieved successfully",
+					"Shared note revoked by owner",
 				);
-				return note;
+
+				return { success: true };
 			} catch (err) {
 				fastify.log.error(
 					{ err, shareId: request.params.shareId, reqId: request.id },
-					"Error in GET /api/shared/:shareId",
+					"Error in DELETE /api/shared/:shareId",
 				);
 				return reply.status(500).send({ error: "Internal Server Error" });
 			}
@@ -0,0 +1,223 @@
+import { randomBytes } from "node:crypto";
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import {
+	type ShareIdParams,
+	type ShareRevealBody,
+	shareIdSchema,
+	shareRevealSchema,
+} from "../schemas";
+import config from "../config";
+import {
+	checkNotePassword,
+	getNoteStats,
+	issueAttachmentKey,
+	keyAttachmentUrls,
+	readNote,
+} from "../services/notes";
+import { bundleToHtml } from "../utils/export";
+import {
+	renderEncryptedPage,
+	renderNotFoundPage,
+	renderNotePage,
+	renderProtectedPage,
+	sharePageCsp,
+} from "../utils/sharePage";
+
+/**
+ * Send a share page with a fresh style nonce and the page security headers
+ */
+function sendPage(
+	reply: FastifyReply,
+	status: number,
+	render: (nonce: string) => string,
+): FastifyReply {
+	const nonce = randomBytes(16).toString("base64");
+	return reply
+		.status(status)
+		.header("Content-Type", "text/html; charset=utf-8")
+		.header("Content-Security-Policy", sharePageCsp(nonce))
+		.header("X-Robots-Tag", "noindex, nofollow")
+		.header("Referrer-Policy", "no-referrer")
+		.header("X-Content-Type-Options", "nosniff")
+		.header("Cache-Control", "no-store")
+		.send(render(nonce));
+}
+
+/**
+ * Public URL of a share page. The Host header is not trusted for it, since
+ * it ends up in link previews.
+ */
+function pageUrl(shareId: string): string {
+	return `${config.server.publicUrl}/share/${shareId}`;
+}
+
+/**
+ * Server-rendered, read-only pages for shared notes
+ */
+async function sharePageRoutes(fastify: FastifyInstance): Promise<void> {
+	// The reveal form posts urlencoded data; scoped to this plugin only
+	fastify.addContentTypeParser(
+		"application/x-www-form-urlencoded",
+		{ parseAs: "string" },
+		(_request, body, done) => {
+			done(null, Object.fromEntries(new URLSearchParams(body as string)));
+		},
+	);
+
+	// GET /share/:shareId - Public page for a shared note
+	fastify.get<{
+		Params: ShareIdParams;
+	}>(
+		"/share/:shareId",
+		{
+			schema: {
+				params: shareIdSchema,
+			},
+		},
+		async (
+			request: FastifyRequest<{ Params: ShareIdParams }>,
+			reply: FastifyReply,
+		) => {
+			const { shareId } = request.params;
+			const url = pageUrl(shareId);
+
+			try {
+				const stats = await getNoteStats(shareId);
+				if (!stats) {
+					return sendPage(reply, 404, (nonce) => renderNotFoundPage(url, nonce));
+				}
+
+				const { note, remainingViews } = stats;
+				if (note.mode === "encrypted") {
+					return sendPage(reply, 200, (nonce) =>
+						renderEncryptedPage(url, nonce),
+					);
+				}
+
+				// Don't let link preview bots unlock or burn a limited note
+				if (note.passwordProtected || remainingViews !== null) {
+					return sendPage(reply, 200, (nonce) =>
+						renderProtectedPage({
+							url,
+							nonce,
+							passwordProtected: note.passwordProtected,
+							remainingViews,
+						}),
+					);
+				}
+
+				const result = await readNote(shareId, undefined);
+				if (!result || result.note.mode === "encrypted") {
+					return sendPage(reply, 404, (nonce) => renderNotFoundPage(url, nonce));
+				}
+
+				const { title } = result.note;
+				const content =
+					result.note.mode === "bundle"
+						? bundleToHtml(result.note.notes)
+						: result.note.content;
+				fastify.log.info(
+					{ shareId, reqId: request.id },
+					"Share page rendered",
+				);
+				return sendPage(reply, 200, (nonce) =>
+					renderNotePage(title, content, url, nonce, result.remainingViews),
+				);
+			} catch (err) {
+				fastify.log.error(
+					{ err, shareId, reqId: request.id },
+					"Error in GET /share/:shareId",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+
+	// POST /share/:shareId - Open a protected or view-limited note from the page form
+	fastify.post<{
+		Params: ShareIdParams;
+		Body: ShareRevealBody;
+	}>(
+		"/share/:shareId",
+		{
+			schema: {
+				params: shareIdSchema,
+				body: shareRevealSchema,
+			},
+		},
+		async (
+			request: FastifyRequest<{ Params: ShareIdParams; Body: ShareRevealBody }>,
+			reply: FastifyReply,
+		) => {
+			const { shareId } = request.params;
+			const url = pageUrl(shareId);
+
+			try {
+				const stats = await getNoteStats(shareId);
+				if (!stats) {
+					return sendPage(reply, 404, (nonce) => renderNotFoundPage(url, nonce));
+				}
+
+				const { note, remainingViews } = stats;
+				if (note.mode === "encrypted") {
+					return sendPage(reply, 200, (nonce) =>
+						renderEncryptedPage(url, nonce),
+					);
+				}
+
+				const status = await checkNotePassword(
+					shareId,
+					request.body?.password ?? "",
+				);
+				if (status !== "ok") {
+					fastify.log.info(
+						{ shareId, status, reqId: request.id },
+						"Share page password rejected",
+					);
+					return sendPage(reply, status === "locked" ? 429 : 401, (nonce) =>
+						renderProtectedPage({
+							url,
+							nonce,
+							passwordProtected: note.passwordProtected,
+							remainingViews,
+							error:
+								status === "locked"
+									? "Too many failed password attempts, try again later."
+									: "Incorrect password.",
+						}),
+					);
+				}
+
+				const result = await readNote(shareId, undefined);
+				if (!result || result.note.mode === "encrypted") {
+					return sendPage(reply, 404, (nonce) => renderNotFoundPage(url, nonce));
+				}
+
+				const { title } = result.note;
+				// Let the page load the note's attachments without the password
+				const content = keyAttachmentUrls(
+					result.note.mode === "bundle"
+						? bundleToHtml(result.note.notes)
+						: result.note.content,
+					shareId,
+					issueAttachmentKey(shareId),
+				);
+				fastify.log.info(
+					{ shareId, remainingViews: result.remainingViews, reqId: request.id },
+					"Share page opened",
+				);
+				return sendPage(reply, 200, (nonce) =>
+					renderNotePage(title, content, url, nonce, result.remainingViews),
+				);
+			} catch (err) {
+				fastify.log.error(
+					{ err, shareId, reqId: request.id },
+					"Error in POST /share/:shareId",
+				);
+				return reply.status(500).send({ error: "Internal Server Error" });
+			}
+		},
+	);
+}
+
+export default sharePageRoutes;
@@ -1,17 +1,72 @@
 import type { JSONSchemaType } from "ajv";
+import config from "../config";
 
-interface ShareBody {
+interface EncryptedPayload {
+	ciphertext: string;
+	algorithm: string;
+	iv: string;
+	salt: string;
+	version: number;
+}
+
+interface ShareBundleItem {
 	title: string;
 	content: string;
 }
 
+interface ShareBody {
+	title?: string;
+	content?: string;
+	encrypted?: EncryptedPayload;
+	notes?: ShareBundleItem[];
+	expiresIn?: number;
+	burnAfterReading?: boolean;
+	maxViews?: number;
+	password?: string;
+}
+
+interface ShareUpdateBody {
+	title?: string;
+	content?: string;
+	encrypted?: EncryptedPayload;
+	notes?: ShareBundleItem[];
+}
+
 interface ShareIdParams {
 	shareId: string;
 }
 
+interface ShareBundleParams {
+	shareId: string;
+	index: number;
+}
+
+interface ShareAttachmentParams {
+	shareId: string;
+	attachmentId: string;
+}
+
+interface SharedAttachmentQuery {
+	key?: string;
+}
+
+interface SharedNoteQuery {
+	version?: number;
+	format?: "json" | "markdown" | "text" | "html";
+}
+
+interface ShareUnlockBody {
+	password: string;
+}
+
+interface ShareRevealBody {
+	password?: string;
+}
+
 interface CollabCreateBody {
 	noteTitle: string;
 	noteContent: string;
+	defaultRole?: "editor" | "viewer";
 }
 
 interface CollabStartParams {
@@ -24,18 +79,200 @@ interface CollabJoinParams {
 
 interface CollabJoinBody {
 	participantName?: string;
+	role?: "editor" | "viewer";
+	invite?: string;
 }
 
 interface CollabSessionIdParams {
 	sessionId: string;
 }
 
+interface CollabKickBody {
+	participantId: string;
+	ban?: boolean;
+}
+
+interface CollabLockBody {
+	locked: boolean;
+}
+
+interface CollabTransferHostBody {
+	participantId: string;
+}
+
+interface CollabSnapshotParams {
+	sessionId: string;
+	snapshotId: string;
+}
+
+interface CollabSnapshotBody {
+	name: string;
+}
+
+interface CollabExtendBody {
+	seconds?: number;
+	autoRenew?: boolean;
+}
+
+const encryptedPayloadSchema: JSONSchemaType<EncryptedPayload> = {
+	type: "object",
+	required: ["ciphertext", "algorithm", "iv", "salt", "version"],
+	properties: {
+		ciphertext: {
+			// Base64 of up to ~500 KB of encrypted note data
+			type: "string",
+			minLength: 1,
+			maxLength: 700000,
+			pattern: "^[A-Za-z0-9+/_=-]+$",
+		},
+		algorithm: {
+			type: "string",
+			minLength: 1,
+			maxLength: 50,
+			pattern: "^[A-Za-z0-9-]+$",
+		},
+		iv: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+			pattern: "^[A-Za-z0-9+/_=-]+$",
+		},
+		salt: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+			pattern: "^[A-Za-z0-9+/_=-]+$",
+		},
+		version: {
+			type: "integer",
+			minimum: 1,
+			maximum: 100,
+		},
+	},
+	additionalProperties: false,
+};
+
+const shareBundleNotesSchema: JSONSchemaType<ShareBundleItem[]> = {
+	type: "array",
+	minItems: 1,
+	maxItems: 20,
+	items: {
+		type: "object",
+		required: ["title", "content"],
+		properties: {
+			title: {
+				type: "string",
+				minLength: 1,
+				maxLength: 200,
+			},
+			content: {
+				// Accept raw HTML string as-is
+				type: "string",
+				minLength: 1,
+				maxLength: 500000,
+			},
+		},
+		additionalProperties: false,
+	},
+};
+
+/**
+ * A plain note (title + content), an end-to-end encrypted one, or a bundle
+ * of notes under one title. The fields a variant requires must not be null,
+ * or a body of nulls would pass as an empty note.
+ */
+const shareVariants = [
+	{
+		required: ["title", "content"],
+		properties: { title: { type: "string" }, content: { type: "string" } },
+		not: { anyOf: [{ required: ["encrypted"] }, { required: ["notes"] }] },
+	},
+	{
+		required: ["encrypted"],
+		properties: { encrypted: { type: "object" } },
+		not: {
+			anyOf: [
+				{ required: ["title"] },
+				{ required: ["content"] },
+				{ required: ["notes"] },
+			],
+		},
+	},
+	{
+		required: ["title", "notes"],
+		properties: { title: { type: "string" }, notes: { type: "array" } },
+		not: { anyOf: [{ required: ["content"] }, { required: ["encrypted"] }] },
+	},
+];
+
 export const shareSchema: JSONSchemaType<ShareBody> = {
 	type: "object",
-	required: ["title", "content"],
+	required: [],
+	oneOf: shareVariants,
+	properties: {
+		title: {
+			type: "string",
+			nullable: true,
+			minLength: 1,
+			maxLength: 200,
+			pattern: "^[\\s\\S]*$", // Allow any characters but enforce length
+		},
+		content: {
+			// Accept raw HTML string as-is
+			type: "string",
+			nullable: true,
+			minLength: 1,
+			maxLength: 500000,
+		},
+		encrypted: {
+			// Opaque client-side ciphertext; the key stays in the URL fragment
+			...encryptedPayloadSchema,
+			nullable: true,
+		},
+		notes: {
+			// Ordered notes shared together; total size is capped by config.share.maxBundleSize
+			...shareBundleNotesSchema,
+			nullable: true,
+		},
+		expiresIn: {
+			// Lifetime in seconds (e.g. 300, 3600, 86400, 604800)
+			type: "integer",
+			nullable: true,
+			minimum: 60,
+			maximum: config.share.maxTTL,
+		},
+		burnAfterReading: {
+			// Delete the note after its first successful read
+			type: "boolean",
+			nullable: true,
+		},
+		maxViews: {
+			// Delete the note once it has been read this many times
+			type: "integer",
+			nullable: true,
+			minimum: 1,
+			maximum: 1000,
+		},
+		password: {
+			// Only a salted hash is stored; required again to read the note
+			type: "string",
+			nullable: true,
+			minLength: 1,
+			maxLength: 200,
+		},
+	},
+	additionalProperties: false,
+};
+
+export const shareUpdateSchema: JSONSchemaType<ShareUpdateBody> = {
+	type: "object",
+	required: [],
+	// Same variants as shareSchema; the mode cannot change
+	oneOf: shareVariants,
 	properties: {
 		title: {
 			type: "string",
+			nullable: true,
 			minLength: 1,
 			maxLength: 200,
 			pattern: "^[\\s\\S]*$", // Allow any characters but enforce length
@@ -43,9 +280,18 @@ export const shareSchema: JSONSchemaType<ShareBody> = {
 		content: {
 			// Accept raw HTML string as-is
 			type: "string",
+			nullable: true,
 			minLength: 1,
 			maxLength: 500000,
 		},
+		encrypted: {
+			...encryptedPayloadSchema,
+			nullable: true,
+		},
+		notes: {
+			...shareBundleNotesSchema,
+			nullable: true,
+		},
 	},
 	additionalProperties: false,
 };
@@ -63,6 +309,104 @@ export const shareIdSchema: JSONSchemaType<ShareIdParams> = {
 	additionalProperties: false,
 };
 
+export const shareBundleParamsSchema: JSONSchemaType<ShareBundleParams> = {
+	type: "object",
+	required: ["shareId", "index"],
+	properties: {
+		shareId: {
+			type: "string",
+			// 8-character NanoID: URL-safe alphanumerics
+			pattern: "^[A-Za-z0-9_-]{8}$",
+		},
+		index: {
+			// Zero-based position of the note in the bundle
+			type: "integer",
+			minimum: 0,
+		},
+	},
+	additionalProperties: false,
+};
+
+export const shareAttachmentParamsSchema: JSONSchemaType<ShareAttachmentParams> =
+	{
+		type: "object",
+		required: ["shareId", "attachmentId"],
+		properties: {
+			shareId: {
+				type: "string",
+				// 8-character NanoID: URL-safe alphanumerics
+				pattern: "^[A-Za-z0-9_-]{8}$",
+			},
+			attachmentId: {
+				// 16 random bytes, base64url encoded
+				type: "string",
+				pattern: "^[A-Za-z0-9_-]{22}$",
+			},
+		},
+		additionalProperties: false,
+	};
+
+export const sharedAttachmentQuerySchema: JSONSchemaType<SharedAttachmentQuery> =
+	{
+		type: "object",
+		required: [],
+		properties: {
+			key: {
+				// Signed key handed out with the content of a protected note
+				type: "string",
+				nullable: true,
+				maxLength: 512,
+			},
+		},
+		additionalProperties: false,
+	};
+
+export const sharedNoteQuerySchema: JSONSchemaType<SharedNoteQuery> = {
+	type: "object",
+	required: [],
+	properties: {
+		version: {
+			// Read an earlier revision of an edited note
+			type: "integer",
+			nullable: true,
+			minimum: 1,
+		},
+		format: {
+			// Download as a converted document instead of JSON
+			type: "string",
+			nullable: true,
+			enum: ["json", "markdown", "text", "html"],
+		},
+	},
+	additionalProperties: false,
+};
+
+export const shareUnlockSchema: JSONSchemaType<ShareUnlockBody> = {
+	type: "object",
+	required: ["password"],
+	properties: {
+		password: {
+			type: "string",
+			minLength: 1,
+			maxLength: 200,
+		},
+	},
+	additionalProperties: false,
+};
+
+export const shareRevealSchema: JSONSchemaType<ShareRevealBody> = {
+	type: "object",
+	required: [],
+	properties: {
+		password: {
+			type: "string",
+			nullable: true,
+			maxLength: 200,
+		},
+	},
+	additionalProperties: false,
+};
+
 export const collabCreateSchema: JSONSchemaType<CollabCreateBody> = {
 	type: "object",
 	required: ["noteTitle", "noteContent"],
@@ -77,6 +421,12 @@ export const collabCreateSchema: JSONSchemaType<CollabCreateBody> = {
 			minLength: 0,
 			maxLength: 500000,
 		},
+		defaultRole: {
+			// Role of participants who join without an invite
+			type: "string",
+			nullable: true,
+			enum: ["editor", "viewer"],
+		},
 	},
 	additionalProperties: false,
 };
@@ -119,6 +469,17 @@ export const collabJoinBodySchema: JSONSchemaType<CollabJoinBody> = {
 			minLength: 1,
 			maxLength: 50,
 		},
+		role: {
+			type: "string",
+			nullable: true,
+			enum: ["editor", "viewer"],
+		},
+		invite: {
+			// Invite token handed out by the host
+			type: "string",
+			nullable: true,
+			maxLength: 1000,
+		},
 	},
 	additionalProperties: false,
 };
@@ -137,12 +498,110 @@ export const collabSessionIdSchema: JSONSchemaType<CollabSessionIdParams> = {
 	additionalProperties: false,
 };
 
+const uuidSchema = {
+	type: "string",
+	// UUID v4 pattern
+	pattern:
+		"^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$",
+} as const;
+
+export const collabKickSchema: JSONSchemaType<CollabKickBody> = {
+	type: "object",
+	required: ["participantId"],
+	properties: {
+		participantId: uuidSchema,
+		ban: {
+			// Keep the participant out for the rest of the session
+			type: "boolean",
+			nullable: true,
+		},
+	},
+	additionalProperties: false,
+};
+
+export const collabLockSchema: JSONSchemaType<CollabLockBody> = {
+	type: "object",
+	required: ["locked"],
+	properties: {
+		locked: {
+			type: "boolean",
+		},
+	},
+	additionalProperties: false,
+};
+
+export const collabTransferHostSchema: JSONSchemaType<CollabTransferHostBody> = {
+	type: "object",
+	required: ["participantId"],
+	properties: {
+		participantId: uuidSchema,
+	},
+	additionalProperties: false,
+};
+
+export const collabSnapshotParamsSchema: JSONSchemaType<CollabSnapshotParams> = {
+	type: "object",
+	required: ["sessionId", "snapshotId"],
+	properties: {
+		sessionId: uuidSchema,
+		snapshotId: uuidSchema,
+	},
+	additionalProperties: false,
+};
+
+export const collabSnapshotSchema: JSONSchemaType<CollabSnapshotBody> = {
+	type: "object",
+	required: ["name"],
+	properties: {
+		name: {
+			type: "string",
+			minLength: 1,
+			maxLength: 100,
+		},
+	},
+	additionalProperties: false,
+};
+
+export const collabExtendSchema: JSONSchemaType<CollabExtendBody> = {
+	type: "object",
+	required: [],
+	properties: {
+		seconds: {
+			// Added to the current expiry; the total lifetime is capped by
+			// config.collaboration.maxSessionLifetime
+			type: "integer",
+			nullable: true,
+			minimum: 0,
+		},
+		autoRenew: {
+			type: "boolean",
+			nullable: true,
+		},
+	},
+	additionalProperties: false,
+};
+
 export type {
+	EncryptedPayload,
+	ShareBundleItem,
 	ShareBody,
+	ShareUpdateBody,
 	ShareIdParams,
+	ShareBundleParams,
+	ShareAttachmentParams,
+	SharedAttachmentQuery,
+	SharedNoteQuery,
+	ShareUnlockBody,
+	ShareRevealBody,
 	CollabCreateBody,
 	CollabStartParams,
 	CollabJoinParams,
 	CollabJoinBody,
 	CollabSessionIdParams,
+	CollabKickBody,
+	CollabLockBody,
+	CollabTransferHostBody,
+	CollabSnapshotParams,
+	CollabSnapshotBody,
+	CollabExtendBody,
 };
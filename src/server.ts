@@ -1,28 +1,71 @@
 import { randomUUID } from "node:crypto";
-import fastify, { type FastifyInstance } from "fastify";
+import fastify, { type FastifyInstance, type FastifyRequest } from "fastify";
 import websocket from "@fastify/websocket";
+import type { WebSocket } from "ws";
 import config from "./config";
 import { registerMiddleware } from "./middleware";
 import { registerRoutes } from "./routes";
 import redisClient from "./utils/redis";
-import { CollaborationManager } from "./services/collaboration";
+import {
+	CLOSE_INVALID_TOKEN,
+	CollaborationManager,
+	type SyncProtocol,
+} from "./services/collaboration";
+import { verifySessionToken } from "./services/collaborationTokens";
+
+declare module "fastify" {
+	interface FastifyInstance {
+		collaborationManager: CollaborationManager;
+	}
+}
 
 // Global collaboration manager instance
 let collaborationManager: CollaborationManager;
 
+/**
+ * Hide session tokens, which WebSocket clients pass in the query string,
+ * and attachment keys from logged request URLs
+ */
+function redactToken(url: string): string {
+	return url.replace(/([?&](?:token|key)=)[^&]*/g, "$1[redacted]");
+}
+
 /**
  * Create and configure the Fastify application
  */
 async function createApp(): Promise<FastifyInstance> {
 	// Create Fastify instance with enhanced logging
 	const app = fastify({
-		logger: config.server.logger,
+		logger: {
+			...config.server.logger,
+			serializers: {
+				req: (req) => ({
+					method: req.method,
+					url: redactToken(req.url),
+					host: req.host,
+					remoteAddress: req.ip,
+				}),
+			},
+		},
 		genReqId: () => randomUUID(),
+		trustProxy: config.server.trustProxy,
 	});
 
 	// Register WebSocket support
 	await app.register(websocket);
 
+	if (!config.collaboration.tokenSecretConfigured) {
+		app.log.warn(
+			"COLLAB_TOKEN_SECRET is not set; collaboration tokens are signed with a random key and only work on this instance until it restarts",
+		);
+	}
+
+	if (!config.share.keySecretConfigured) {
+		app.log.warn(
+			"SHARE_KEY_SECRET is not set; attachment keys of protected notes are signed with a random key and only work on this instance until it restarts",
+		);
+	}
+
 	// Set logger reference in Redis client
 	redisClient.setLogger(app.log);
 
@@ -39,16 +82,21 @@ async function createApp(): Promise<FastifyInstance> {
 	// Register routes
 	await registerRoutes(app);
 
-	// Set up WebSocket route for collaboration
+	// Set up WebSocket routes for collaboration
 	app.register(async function (fastify) {
-		fastify.get(
-			`${config.websocket.path}/:sessionId`,
-			{ websocket: true },
-			(connection, req) => {
+		const handleSocket =
+			(protocol: SyncProtocol) =>
+			(connection: WebSocket, req: FastifyRequest) => {
 				const sessionId = (req.params as { sessionId: string }).sessionId;
-				const participantId =
-					(req.headers["x-participant-id"] as string) || req.ip || randomUUID();
-				const participantName = req.headers["x-participant-name"] as string;
+				// Browsers cannot set headers on WebSocket upgrades, so the token
+				// and display name may also be passed in the query string
+				const query = req.query as {
+					token?: string;
+					participantName?: string;
+				};
+				const participantName =
+					(req.headers["x-participant-name"] as string) ||
+					query.participantName;
 
 				// Validate sessionId format (UUID v4)
 				const uuidRegex =
@@ -58,8 +106,24 @@ async function createApp(): Promise<FastifyInstance> {
 					return;
 				}
 
+				// The participant's identity comes from their signed session token
+				const claims = verifySessionToken(
+					req.headers["x-session-token"] || query.token,
+					sessionId,
+				);
+				if (!claims) {
+					connection.close(CLOSE_INVALID_TOKEN, "Invalid or missing session token");
+					return;
+				}
+				const { participantId, role } = claims;
+
+				// Enforce the server-wide and per-address socket limits
+				if (!collaborationManager.admitConnection(connection, req.ip)) {
+					return;
+				}
+
 				fastify.log.info(
-					{ sessionId, participantId, participantName },
+					{ sessionId, participantId, role, participantName, protocol },
 					"WebSocket connection established",
 				);
 
@@ -67,9 +131,25 @@ async function createApp(): Promise<FastifyInstance> {
 					connection,
 					sessionId,
 					participantId,
+					role,
 					participantName,
+					protocol,
 				);
-			},
+			};
+
+		// Legacy JSON protocol
+		fastify.get(
+			`${config.websocket.path}/:sessionId`,
+			{ websocket: true },
+			handleSocket("json"),
+		);
+
+		// Binary y-protocols sync for y-websocket's WebsocketProvider, which
+		// connects to `${serverUrl}/${roomName}` with the session ID as room
+		fastify.get(
+			`${config.websocket.yjsPath}/:sessionId`,
+			{ websocket: true },
+			handleSocket("yjs"),
 		);
 	});
 
@@ -125,6 +205,9 @@ async function start(): Promise<void> {
 		app.log.info(
 			`WebSocket endpoint: ws://${config.server.host}:${config.server.port}${config.websocket.path}/:sessionId`,
 		);
+		app.log.info(
+			`Yjs WebSocket endpoint: ws://${config.server.host}:${config.server.port}${config.websocket.yjsPath}/:sessionId`,
+		);
 	} catch (err) {
 		console.error("Failed to start server:", err);
 		process.exit(1);
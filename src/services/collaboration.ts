@@ -1,46 +1,276 @@
+import { randomUUID } from "node:crypto";
+import * as decoding from "lib0/decoding";
+import * as encoding from "lib0/encoding";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as syncProtocol from "y-protocols/sync";
 import * as Y from "yjs";
 import WebSocket from "ws";
 import type { FastifyBaseLogger } from "fastify";
 import redisClient from "../utils/redis";
 import config from "../config";
+import {
+	appendDocumentUpdate,
+	compactDocument,
+	deleteDocument,
+	documentText,
+	initializeDocument,
+	loadDocumentState,
+} from "./collaborationDocuments";
+import {
+	type SessionMetadata,
+	effectiveRole,
+	extendSessionKeys,
+	sessionLifetimeEnd,
+	updateSessionMetadata,
+} from "./collaborationSessions";
+import {
+	type Author,
+	type AuthorshipRun,
+	attributeText,
+	loadAuthors,
+	recordAuthors,
+} from "./collaborationAuthors";
+import {
+	type SnapshotInfo,
+	claimAutoSnapshot,
+	loadSnapshot,
+	saveSnapshot,
+} from "./collaborationSnapshots";
+import { type ParticipantRole, canEdit } from "./collaborationTokens";
+
+/**
+ * Wire protocol of a connection: the legacy JSON messages, or the binary
+ * y-protocols messages spoken by y-websocket's WebsocketProvider
+ */
+export type SyncProtocol = "json" | "yjs";
+
+// y-websocket message types
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_QUERY_AWARENESS = 3;
+// Host moderation actions and JSON notifications for participants; only
+// sent between server instances
+const MESSAGE_MODERATION = 100;
+const MESSAGE_NOTIFICATION = 101;
+const MESSAGE_EXPIRY = 102;
+
+/**
+ * Close codes for connections that are turned away. 1013 is the standard
+ * "try again later"; 4000-4999 are free for applications.
+ */
+export const CLOSE_SERVER_FULL = 1013;
+export const CLOSE_INVALID_TOKEN = 4001;
+export const CLOSE_REMOVED_BY_HOST = 4003;
+export const CLOSE_TOO_MANY_FROM_ADDRESS = 4029;
+export const CLOSE_SESSION_CONNECTIONS_FULL = 4030;
+
+// Transaction origin of changes received from other server instances
+const REMOTE_ORIGIN = Symbol("remote");
+
+/**
+ * Redis channel that carries a session's document and awareness updates
+ * between server instances
+ */
+function updatesChannel(sessionId: string): string {
+	return `collab:updates:${sessionId}`;
+}
+
+/**
+ * Host controls, sent over the JSON protocol or the REST API
+ */
+export type ModerationAction =
+	| { type: "kick"; participantId: string; ban: boolean }
+	| { type: "lock" }
+	| { type: "unlock" }
+	| { type: "transfer-host"; participantId: string };
+
+/**
+ * Outcome of a moderation action: "not-host" when the requester does not hold
+ * host rights, "invalid-target" when the participant cannot be acted upon
+ */
+export type ModerationResult = "ok" | "not-found" | "not-host" | "invalid-target";
+
+/**
+ * Outcome of extending a session; `maxExpiresAt` is the lifetime cap
+ */
+export type ExtendResult =
+	| { status: "ok"; expiresAt: number; maxExpiresAt: number; autoRenew: boolean }
+	| { status: "not-found" | "not-host" };
+
+/**
+ * Whole seconds from now until `time`, at least one
+ */
+function secondsUntil(time: number): number {
+	return Math.max(1, Math.ceil((time - Date.now()) / 1000));
+}
+
+/**
+ * Read a moderation action from a JSON protocol message
+ */
+function toModerationAction(message: unknown): ModerationAction | null {
+	if (typeof message !== "object" || message === null) {
+		return null;
+	}
+	const { type, participantId, ban } = message as Record<string, unknown>;
+	switch (type) {
+		case "kick":
+			return typeof participantId === "string"
+				? { type: "kick", participantId, ban: ban === true }
+				: null;
+		case "lock":
+		case "unlock":
+			return { type };
+		case "transfer-host":
+			return typeof participantId === "string"
+				? { type: "transfer-host", participantId }
+				: null;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Turn a Y.Text into `text`, changing only the part that differs so the
+ * rest keeps its identity for concurrent edits and cursors
+ */
+function replaceText(ytext: Y.Text, text: string): void {
+	const current = ytext.toString();
+	let start = 0;
+	while (
+		start < current.length &&
+		start < text.length &&
+		current[start] === text[start]
+	) {
+		start++;
+	}
+	let end = 0;
+	while (
+		end < current.length - start &&
+		end < text.length - start &&
+		current[current.length - 1 - end] === text[text.length - 1 - end]
+	) {
+		end++;
+	}
+	ytext.delete(start, current.length - start - end);
+	ytext.insert(start, text.slice(start, text.length - end));
+}
+
+interface Connection {
+	protocol: SyncProtocol;
+	participantId: string;
+	name: string;
+	role: ParticipantRole;
+	// Awareness client IDs announced over this connection
+	awarenessClients: Set<number>;
+	// Cleared on every heartbeat, set again by a pong or any message
+	isAlive: boolean;
+}
+
+interface AwarenessChanges {
+	added: number[];
+	updated: number[];
+	removed: number[];
+}
 
 interface CollaborationSession {
 	ydoc: Y.Doc;
-	connections: Set<WebSocket>;
+	// Authoritative cursors and presence; states that are not renewed
+	// within 30 seconds expire
+	awareness: awarenessProtocol.Awareness;
+	connections: Map<WebSocket, Connection>;
+	// Time of the last connection or document change
 	lastActivity: number;
-	participants: Set<string>;
-}
-
-interface SessionMetadata {
-	noteId: string;
-	noteTitle: string;
-	noteContent: string;
-	creatorId: string;
-	hostId: string;
-	participants: string[];
-	createdAt: number;
 	expiresAt: number;
+	autoRenew: boolean;
+	participants: Set<string>;
+	// Only the host may edit while locked
+	locked: boolean;
+	// Whether the document changed since the last automatic snapshot
+	changedSinceSnapshot: boolean;
+	// Yjs client IDs whose author this instance has recorded
+	authoredClients: Set<number>;
 }
 
 export class CollaborationManager {
 	private sessions = new Map<string, CollaborationSession>();
+	// Sessions being created, shared by joins that arrive meanwhile
+	private loadingSessions = new Map<string, Promise<CollaborationSession>>();
 	private logger: FastifyBaseLogger | null = null;
 	private cleanupInterval: NodeJS.Timeout | null = null;
+	private heartbeatInterval: NodeJS.Timeout | null = null;
+	private snapshotInterval: NodeJS.Timeout | null = null;
+	// Tags published updates so an instance ignores its own messages
+	private readonly instanceId = randomUUID();
+	// Sessions whose document log is being compacted by this instance
+	private compacting = new Set<string>();
+	// Open sockets on this instance, in total and per client address
+	private connectionCount = 0;
+	private connectionsByIp = new Map<string, number>();
 
 	constructor() {
 		this.startCleanupInterval();
+		this.startHeartbeatInterval();
+		this.startSnapshotInterval();
 	}
 
 	setLogger(logger: FastifyBaseLogger): void {
 		this.logger = logger;
 	}
 
+	/**
+	 * Admit a new socket against the server-wide and per-address limits.
+	 * Rejected sockets are closed; admitted ones are counted until they close.
+	 */
+	admitConnection(ws: WebSocket, ip: string): boolean {
+		if (this.connectionCount >= config.websocket.maxConnections) {
+			this.logger?.warn(
+				{ ip, connectionCount: this.connectionCount },
+				"Rejected WebSocket connection, server at capacity",
+			);
+			ws.close(CLOSE_SERVER_FULL, "Server connection limit reached");
+			return false;
+		}
+
+		const fromIp = this.connectionsByIp.get(ip) ?? 0;
+		if (fromIp >= config.websocket.maxConnectionsPerIp) {
+			this.logger?.warn(
+				{ ip, connectionCount: fromIp },
+				"Rejected WebSocket connection, too many from one address",
+			);
+			ws.close(CLOSE_TOO_MANY_FROM_ADDRESS, "Too many connections from this address");
+			return false;
+		}
+
+		this.connectionCount++;
+		this.connectionsByIp.set(ip, fromIp + 1);
+		ws.once("close", () => {
+			this.connectionCount--;
+			const remaining = (this.connectionsByIp.get(ip) ?? 1) - 1;
+			if (remaining > 0) {
+				this.connectionsByIp.set(ip, remaining);
+			} else {
+				this.connectionsByIp.delete(ip);
+			}
+		});
+		return true;
+	}
+
 	async handleConnection(
 		ws: WebSocket,
 		sessionId: string,
 		participantId: string,
+		role: ParticipantRole,
 		participantName?: string,
+		protocol: SyncProtocol = "json",
 	): Promise<void> {
+		// Clients send their sync-step-1 as soon as the socket opens, so hold
+		// messages that arrive while the session is being loaded
+		const pending: [Buffer, boolean][] = [];
+		const holdMessage = (data: Buffer, isBinary: boolean) => {
+			pending.push([data, isBinary]);
+		};
+		ws.on("message", holdMessage);
+
 		try {
 			// Validate session exists and is not expired
 			const sessionData = await redisClient.get(`collab:session:${sessionId}`);
@@ -56,30 +286,56 @@ export class CollaborationManager {
 				return;
 			}
 
-			// Get or create session
-			let session = this.sessions.get(sessionId);
-			if (!session) {
-				session = await this.createSession(sessionId, metadata);
+			if (metadata.bannedParticipants?.includes(participantId)) {
+				ws.close(CLOSE_REMOVED_BY_HOST, "Banned from session");
+				return;
 			}
 
+			role = effectiveRole(metadata, participantId, role);
+
+			// Get or create session
+			const session =
+				this.sessions.get(sessionId) ??
+				(await this.loadSession(sessionId, metadata));
+
 			// Check participant limit
 			if (session.participants.size >= config.collaboration.maxParticipants) {
 				ws.close(1008, "Session full");
 				return;
 			}
 
+			// Check socket limit, which also counts several tabs of one participant
+			if (session.connections.size >= config.collaboration.maxConnectionsPerSession) {
+				this.logger?.warn(
+					{ sessionId, participantId, connectionCount: session.connections.size },
+					"Rejected WebSocket connection, session connection limit reached",
+				);
+				ws.close(CLOSE_SESSION_CONNECTIONS_FULL, "Session connection limit reached");
+				return;
+			}
+
+			const displayName = participantName || `User ${participantId.slice(-4)}`;
+
 			// Add connection and participant
-			session.connections.add(ws);
+			const connection: Connection = {
+				protocol,
+				participantId,
+				name: displayName,
+				role,
+				awarenessClients: new Set(),
+				isAlive: true,
+			};
+			session.connections.set(ws, connection);
 			session.participants.add(participantId);
 			session.lastActivity = Date.now();
 
-			const displayName = participantName || `User ${participantId.slice(-4)}`;
-
 			this.logger?.info(
 				{
 					sessionId,
 					participantId,
 					participantName: displayName,
+					role,
+					protocol,
 					participantCount: session.participants.size,
 					connectionCount: session.connections.size,
 				},
@@ -87,9 +343,25 @@ export class CollaborationManager {
 			);
 
 			// Set up Y.js sync
-			this.setupYjsSync(ws, session.ydoc, sessionId);
+			if (protocol === "yjs") {
+				this.setupBinarySync(ws, session.ydoc, sessionId);
+			} else {
+				this.setupYjsSync(ws, session.ydoc, sessionId);
+				this.sendRole(ws, session, connection);
+			}
+			this.sendAwarenessSnapshot(ws, session);
+			ws.off("message", holdMessage);
+			for (const [data, isBinary] of pending) {
+				ws.emit("message", data, isBinary);
+			}
 
 			// Handle WebSocket events
+			const markAlive = () => {
+				connection.isAlive = true;
+			};
+			ws.on("pong", markAlive);
+			ws.on("message", markAlive);
+
 			ws.on("close", () => {
 				this.handleDisconnection(ws, sessionId, participantId);
 			});
@@ -106,6 +378,7 @@ export class CollaborationManager {
 			await this.updateParticipantPresence(sessionId, participantId, {
 				id: participantId,
 				name: displayName,
+				role,
 				color: this.generateParticipantColor(participantId),
 				joinedAt: Date.now(),
 				lastSeen: Date.now(),
@@ -117,6 +390,7 @@ export class CollaborationManager {
 				participant: {
 					id: participantId,
 					name: displayName,
+					role,
 					color: this.generateParticipantColor(participantId),
 				},
 			});
@@ -129,60 +403,105 @@ export class CollaborationManager {
 		}
 	}
 
+	/**
+	 * Create a session, or wait for the one another join is already creating
+	 */
+	private async loadSession(
+		sessionId: string,
+		metadata: SessionMetadata,
+	): Promise<CollaborationSession> {
+		let loading = this.loadingSessions.get(sessionId);
+		if (!loading) {
+			loading = this.createSession(sessionId, metadata).finally(() => {
+				this.loadingSessions.delete(sessionId);
+			});
+			this.loadingSessions.set(sessionId, loading);
+		}
+		return loading;
+	}
+
 	private async createSession(
 		sessionId: string,
 		metadata: SessionMetadata,
 	): Promise<CollaborationSession> {
 		const ydoc = new Y.Doc();
 
+		// The server has no cursor of its own
+		const awareness = new awarenessProtocol.Awareness(ydoc);
+		awareness.setLocalState(null);
+
+		const session: CollaborationSession = {
+			ydoc,
+			awareness,
+			connections: new Map(),
+			lastActivity: Date.now(),
+			expiresAt: metadata.expiresAt,
+			autoRenew: metadata.autoRenew === true,
+			participants: new Set(),
+			locked: metadata.locked === true,
+			changedSinceSnapshot: false,
+			authoredClients: new Set(),
+		};
+
+		// Receive changes made through other server instances. Subscribing
+		// before loading the document means nothing published in between is
+		// missed; Yjs updates can be applied in any order.
+		await redisClient.subscribe(updatesChannel(sessionId), (message) => {
+			try {
+				this.handleRemoteMessage(session, sessionId, message);
+			} catch (error) {
+				this.logger?.error(
+					{ error, sessionId },
+					"Failed to apply update from another instance",
+				);
+			}
+		});
+
 		// Try to restore document state from Redis first
-		const docState = await redisClient.getBuffer(`collab:doc:${sessionId}`);
+		const docState = await loadDocumentState(sessionId);
 		if (docState) {
 			Y.applyUpdate(ydoc, docState);
 			this.logger?.info({ sessionId }, "Restored document state from Redis");
 		} else if (metadata.noteContent) {
-			// Initialize document with the initial content from session metadata
-			const yText = ydoc.getText("content");
-			yText.insert(0, metadata.noteContent);
+			// Initialize document with the initial content from session metadata.
+			// It is written with a fixed client ID so that instances initializing
+			// the same session concurrently produce identical, mergeable content.
+			const initialDoc = new Y.Doc();
+			initialDoc.clientID = 0;
+			initialDoc.getText("content").insert(0, metadata.noteContent);
+			const initialState = Y.encodeStateAsUpdate(initialDoc);
+			initialDoc.destroy();
+			Y.applyUpdate(ydoc, initialState);
 			
-			// Persist the initial state
-			const initialState = Y.encodeStateAsUpdate(ydoc);
-			await redisClient.setBuffer(
-				`collab:doc:${sessionId}`,
-				Buffer.from(initialState),
-				config.collaboration.sessionTTL,
+			// Persist the initial state, written on behalf of the creator
+			const ttl = secondsUntil(metadata.expiresAt);
+			await initializeDocument(sessionId, initialState, ttl);
+			await recordAuthors(
+				sessionId,
+				new Map([[0, { participantId: metadata.creatorId, name: null }]]),
+				ttl,
 			);
 			
 			this.logger?.info({ sessionId }, "Initialized document with initial content");
 		}
 
-		const session: CollaborationSession = {
-			ydoc,
-			connections: new Set(),
-			lastActivity: Date.now(),
-			participants: new Set(),
-		};
-
-		// Set up document update handler to persist changes
-		ydoc.on("update", async (update: Uint8Array) => {
+		// Set up document update handler to persist changes. Changes from other
+		// instances are persisted by the instance they were made on.
+		ydoc.on("update", async (update: Uint8Array, origin: unknown) => {
+			session.changedSinceSnapshot = true;
+			session.lastActivity = Date.now();
+			if (origin === REMOTE_ORIGIN) return;
+			this.recordUpdateAuthors(session, sessionId, update, origin);
 			try {
-				// Get current document state and merge with the update
-				const currentState = await redisClient.getBuffer(`collab:doc:${sessionId}`);
-				let mergedDoc = new Y.Doc();
-				
-				if (currentState) {
-					Y.applyUpdate(mergedDoc, currentState);
+				if (
+					await appendDocumentUpdate(
+						sessionId,
+						update,
+						secondsUntil(session.expiresAt),
+					)
+				) {
+					this.compactInBackground(sessionId, session.expiresAt);
 				}
-				Y.applyUpdate(mergedDoc, update);
-				
-				const newState = Y.encodeStateAsUpdate(mergedDoc);
-				await redisClient.setBuffer(
-					`collab:doc:${sessionId}`,
-					Buffer.from(newState),
-					config.collaboration.sessionTTL,
-				);
-				
-				mergedDoc.destroy();
 			} catch (error) {
 				this.logger?.error(
 					{ error, sessionId },
@@ -191,14 +510,200 @@ export class CollaborationManager {
 			}
 		});
 
+		// Relay document changes to every connection except the one they came
+		// from, and to the other instances
+		ydoc.on("update", (update: Uint8Array, origin: unknown) => {
+			this.broadcastDocumentUpdate(sessionId, update, origin);
+			if (origin !== REMOTE_ORIGIN) {
+				this.publishUpdate(sessionId, MESSAGE_SYNC, update);
+			}
+		});
+
+		// Remember which awareness clients each connection controls so they can
+		// be removed when it disconnects, and relay changes including expiry
+		awareness.on(
+			"update",
+			({ added, updated, removed }: AwarenessChanges, origin: unknown) => {
+				const connection = session.connections.get(origin as WebSocket);
+				if (connection) {
+					added.forEach((clientId) => connection.awarenessClients.add(clientId));
+					removed.forEach((clientId) =>
+						connection.awarenessClients.delete(clientId),
+					);
+				}
+				const update = awarenessProtocol.encodeAwarenessUpdate(
+					awareness,
+					added.concat(updated, removed),
+				);
+				this.broadcastAwarenessUpdate(sessionId, update, origin);
+				if (origin !== REMOTE_ORIGIN) {
+					this.publishUpdate(sessionId, MESSAGE_AWARENESS, update);
+				}
+			},
+		);
+
 		this.sessions.set(sessionId, session);
+
+		// Ask the other instances for their participants' awareness states
+		this.publishUpdate(sessionId, MESSAGE_QUERY_AWARENESS, new Uint8Array());
+
 		return session;
 	}
 
+	/**
+	 * Attribute the Yjs client IDs that first appear in a participant's update
+	 * to that participant
+	 */
+	private recordUpdateAuthors(
+		session: CollaborationSession,
+		sessionId: string,
+		update: Uint8Array,
+		origin: unknown,
+	): void {
+		const connection = session.connections.get(origin as WebSocket);
+		if (!connection) return;
+
+		const authors = new Map<number, Author>();
+		for (const clientId of Y.parseUpdateMeta(update).to.keys()) {
+			if (!session.authoredClients.has(clientId)) {
+				session.authoredClients.add(clientId);
+				authors.set(clientId, {
+					participantId: connection.participantId,
+					name: connection.name,
+				});
+			}
+		}
+		if (authors.size === 0) return;
+
+		recordAuthors(sessionId, authors, secondsUntil(session.expiresAt)).catch((error: Error) => {
+			this.logger?.error({ error, sessionId }, "Failed to record authors");
+		});
+	}
+
+	/**
+	 * Merge a session's update log into its snapshot without blocking edits
+	 */
+	private compactInBackground(sessionId: string, expiresAt: number): void {
+		if (this.compacting.has(sessionId)) return;
+		this.compacting.add(sessionId);
+
+		compactDocument(sessionId, secondsUntil(expiresAt))
+			.then((compacted) => {
+				if (compacted) {
+					this.logger?.debug({ sessionId }, "Compacted document update log");
+				}
+			})
+			.catch((error: Error) => {
+				this.logger?.error(
+					{ error, sessionId },
+					"Failed to compact document update log",
+				);
+			})
+			.finally(() => {
+				this.compacting.delete(sessionId);
+			});
+	}
+
+	/**
+	 * Publish a document or awareness update for the other server instances
+	 */
+	private publishUpdate(
+		sessionId: string,
+		messageType: number,
+		payload: Uint8Array,
+	): void {
+		const encoder = encoding.createEncoder();
+		encoding.writeVarString(encoder, this.instanceId);
+		encoding.writeVarUint(encoder, messageType);
+		encoding.writeVarUint8Array(encoder, payload);
+
+		redisClient
+			.publish(updatesChannel(sessionId), Buffer.from(encoding.toUint8Array(encoder)))
+			.catch((error: Error) => {
+				this.logger?.error(
+					{ error, sessionId },
+					"Failed to publish collaboration update",
+				);
+			});
+	}
+
+	/**
+	 * Apply a message published by another server instance
+	 */
+	private handleRemoteMessage(
+		session: CollaborationSession,
+		sessionId: string,
+		message: Buffer,
+	): void {
+		const decoder = decoding.createDecoder(new Uint8Array(message));
+		if (decoding.readVarString(decoder) === this.instanceId) {
+			return;
+		}
+
+		const messageType = decoding.readVarUint(decoder);
+		const payload = decoding.readVarUint8Array(decoder);
+		switch (messageType) {
+			case MESSAGE_SYNC:
+				Y.applyUpdate(session.ydoc, payload, REMOTE_ORIGIN);
+				break;
+
+			case MESSAGE_AWARENESS:
+				awarenessProtocol.applyAwarenessUpdate(
+					session.awareness,
+					payload,
+					REMOTE_ORIGIN,
+				);
+				break;
+
+			case MESSAGE_QUERY_AWARENESS: {
+				// Answer with the states of the participants connected here
+				const clients: number[] = [];
+				session.connections.forEach((connection) => {
+					clients.push(...connection.awarenessClients);
+				});
+				if (clients.length > 0) {
+					this.publishUpdate(
+						sessionId,
+						MESSAGE_AWARENESS,
+						awarenessProtocol.encodeAwarenessUpdate(session.awareness, clients),
+					);
+				}
+				break;
+			}
+
+			case MESSAGE_MODERATION: {
+				const { action, requesterId } = JSON.parse(
+					Buffer.from(payload).toString(),
+				) as { action: ModerationAction; requesterId: string };
+				this.applyModeration(sessionId, action, requesterId);
+				break;
+			}
+
+			case MESSAGE_EXPIRY: {
+				const { expiresAt, autoRenew } = JSON.parse(
+					Buffer.from(payload).toString(),
+				) as { expiresAt: number; autoRenew: boolean };
+				this.applyExpiry(sessionId, expiresAt, autoRenew);
+				break;
+			}
+
+			case MESSAGE_NOTIFICATION:
+				this.broadcastParticipantUpdate(
+					sessionId,
+					JSON.parse(Buffer.from(payload).toString()),
+				);
+				break;
+		}
+	}
+
 	private setupYjsSync(ws: WebSocket, ydoc: Y.Doc, sessionId: string): void {
-		// Send initial document state
-		const state = Y.encodeStateAsUpdate(ydoc);
-		this.sendMessage(ws, { type: "sync-step-1", update: Array.from(state) });
+		// Send our state vector; the client answers with sync-step-2 carrying
+		// only the changes we are missing, and sends its own state vector
+		const stateVector = Y.encodeStateVector(ydoc);
+		this.sendMessage(ws, {
+			type: "sync-step-1",
+			stateVector: Array.from(stateVector),
+		});
 
 		// Handle incoming messages
 		ws.on("message", (data: Buffer) => {
@@ -212,26 +717,183 @@ export class CollaborationManager {
 				);
 			}
 		});
+	}
 
-		// Handle document updates
-		ydoc.on("update", (update: Uint8Array) => {
-			const message = {
-				type: "sync-update",
-				update: Array.from(update),
-			};
+	/**
+	 * Binary y-protocols sync, compatible with y-websocket's WebsocketProvider
+	 */
+	private setupBinarySync(ws: WebSocket, ydoc: Y.Doc, sessionId: string): void {
+		// Send our state vector so the client replies with what we are missing
+		const encoder = encoding.createEncoder();
+		encoding.writeVarUint(encoder, MESSAGE_SYNC);
+		syncProtocol.writeSyncStep1(encoder, ydoc);
+		this.sendBinary(ws, encoding.toUint8Array(encoder));
 
-			// Broadcast to all connections except sender
-			const session = this.sessions.get(sessionId);
-			if (session) {
-				session.connections.forEach((conn) => {
-					if (conn !== ws && conn.readyState === WebSocket.OPEN) {
-						this.sendMessage(conn, message);
-					}
-				});
+		ws.on("message", (data: Buffer, isBinary: boolean) => {
+			if (!isBinary) {
+				this.logger?.warn({ sessionId }, "Ignoring text frame on binary sync connection");
+				return;
+			}
+			try {
+				this.handleBinaryMessage(ws, ydoc, new Uint8Array(data), sessionId);
+			} catch (error) {
+				this.logger?.error(
+					{ error, sessionId },
+					"Failed to handle binary sync message",
+				);
 			}
 		});
 	}
 
+	private handleBinaryMessage(
+		ws: WebSocket,
+		ydoc: Y.Doc,
+		message: Uint8Array,
+		sessionId: string,
+	): void {
+		const decoder = decoding.createDecoder(message);
+		const messageType = decoding.readVarUint(decoder);
+
+		switch (messageType) {
+			case MESSAGE_SYNC: {
+				// Answers sync step 1 with step 2; applies step 2 and updates with
+				// the socket as transaction origin so they are not echoed back
+				const encoder = encoding.createEncoder();
+				encoding.writeVarUint(encoder, MESSAGE_SYNC);
+				if (this.canConnectionEdit(ws, sessionId)) {
+					syncProtocol.readSyncMessage(decoder, encoder, ydoc, ws);
+				} else if (
+					decoding.readVarUint(decoder) === syncProtocol.messageYjsSyncStep1
+				) {
+					// Viewers still receive changes, but their own are dropped
+					syncProtocol.readSyncStep1(decoder, encoder, ydoc);
+				}
+				if (encoding.length(encoder) > 1) {
+					this.sendBinary(ws, encoding.toUint8Array(encoder));
+				}
+				break;
+			}
+
+			case MESSAGE_AWARENESS: {
+				const session = this.sessions.get(sessionId);
+				if (session) {
+					awarenessProtocol.applyAwarenessUpdate(
+						session.awareness,
+						decoding.readVarUint8Array(decoder),
+						ws,
+					);
+				}
+				break;
+			}
+
+			case MESSAGE_QUERY_AWARENESS: {
+				const session = this.sessions.get(sessionId);
+				if (session) {
+					this.sendAwarenessSnapshot(ws, session);
+				}
+				break;
+			}
+
+			default:
+				this.logger?.warn(
+					{ messageType, sessionId },
+					"Unknown binary message type",
+				);
+		}
+	}
+
+	/**
+	 * Send a document update to every connection except its origin
+	 */
+	private broadcastDocumentUpdate(
+		sessionId: string,
+		update: Uint8Array,
+		origin: unknown,
+	): void {
+		const encoder = encoding.createEncoder();
+		encoding.writeVarUint(encoder, MESSAGE_SYNC);
+		syncProtocol.writeUpdate(encoder, update);
+		this.broadcast(
+			sessionId,
+			encoding.toUint8Array(encoder),
+			{ type: "sync-update", update: Array.from(update) },
+			origin,
+		);
+	}
+
+	/**
+	 * Send an awareness update to every connection except its origin
+	 */
+	private broadcastAwarenessUpdate(
+		sessionId: string,
+		update: Uint8Array,
+		origin: unknown,
+	): void {
+		// y-websocket reconnects after 30 seconds without a message, so like the
+		// reference server, binary clients also get their own renewals back
+		const session = this.sessions.get(sessionId);
+		const echo =
+			session?.connections.get(origin as WebSocket)?.protocol === "yjs";
+		this.broadcast(
+			sessionId,
+			this.encodeAwarenessMessage(update),
+			{ type: "awareness", update: Array.from(update) },
+			echo ? null : origin,
+		);
+	}
+
+	/**
+	 * Send a message to every connection except `origin`, in the binary or
+	 * JSON form depending on each connection's protocol
+	 */
+	private broadcast(
+		sessionId: string,
+		binaryMessage: Uint8Array,
+		jsonMessage: object,
+		origin: unknown,
+	): void {
+		const session = this.sessions.get(sessionId);
+		if (!session) return;
+
+		session.connections.forEach((connection, conn) => {
+			if (conn === origin) return;
+			if (connection.protocol === "yjs") {
+				this.sendBinary(conn, binaryMessage);
+			} else {
+				this.sendMessage(conn, jsonMessage);
+			}
+		});
+	}
+
+	/**
+	 * Send all current awareness states, so late joiners see everyone's
+	 * cursor right away
+	 */
+	private sendAwarenessSnapshot(
+		ws: WebSocket,
+		session: CollaborationSession,
+	): void {
+		const clients = Array.from(session.awareness.getStates().keys());
+		if (clients.length === 0) return;
+
+		const update = awarenessProtocol.encodeAwarenessUpdate(
+			session.awareness,
+			clients,
+		);
+		if (session.connections.get(ws)?.protocol === "yjs") {
+			this.sendBinary(ws, this.encodeAwarenessMessage(update));
+		} else {
+			this.sendMessage(ws, { type: "awareness", update: Array.from(update) });
+		}
+	}
+
+	private encodeAwarenessMessage(update: Uint8Array): Uint8Array {
+		const encoder = encoding.createEncoder();
+		encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+		encoding.writeVarUint8Array(encoder, update);
+		return encoding.toUint8Array(encoder);
+	}
+
 	private handleYjsMessage(
 		ws: WebSocket,
 		ydoc: Y.Doc,
@@ -240,36 +902,94 @@ export class CollaborationManager {
 	): void {
 		switch (message.type) {
 			case "sync-step-1": {
+				// Reply with the diff the client is missing, which is only the
+				// changes made while it was away when it reconnects with its doc.
+				// Older clients send their whole state instead of a state vector
+				// and get the whole document back.
+				const diff = Array.isArray(message.stateVector)
+					? Y.encodeStateAsUpdate(ydoc, new Uint8Array(message.stateVector))
+					: Y.encodeStateAsUpdate(ydoc);
+				this.sendMessage(ws, { type: "sync-step-2", update: Array.from(diff) });
 				if (message.update) {
-					Y.applyUpdate(ydoc, new Uint8Array(message.update));
+					this.applyClientUpdate(ws, ydoc, message.update, sessionId);
 				}
 				break;
 			}
 
 			case "sync-step-2": {
 				if (message.update) {
-					Y.applyUpdate(ydoc, new Uint8Array(message.update));
+					this.applyClientUpdate(ws, ydoc, message.update, sessionId);
 				}
 				break;
 			}
 
 			case "sync-update": {
-				if (message.update) {
-					Y.applyUpdate(ydoc, new Uint8Array(message.update));
+				if (
+					message.update &&
+					!this.applyClientUpdate(ws, ydoc, message.update, sessionId)
+				) {
+					this.sendMessage(ws, { type: "update-rejected", reason: "read-only" });
 				}
 				break;
 			}
 
-			case "awareness": {
-				// Broadcast awareness updates to other participants
-				const session = this.sessions.get(sessionId);
-				if (session) {
-					session.connections.forEach((conn) => {
-						if (conn !== ws && conn.readyState === WebSocket.OPEN) {
-							this.sendMessage(conn, message);
+			// Application-level heartbeat for clients whose proxies drop
+			// WebSocket ping frames; any message already counts as alive
+			case "ping": {
+				this.sendMessage(ws, { type: "pong", timestamp: Date.now() });
+				break;
+			}
+
+			case "pong":
+				break;
+
+			case "kick":
+			case "lock":
+			case "unlock":
+			case "transfer-host": {
+				const connection = this.sessions.get(sessionId)?.connections.get(ws);
+				const action = toModerationAction(message);
+				if (!connection || !action) break;
+
+				this.moderate(sessionId, connection.participantId, action)
+					.then((result) => {
+						if (result !== "ok") {
+							this.sendMessage(ws, {
+								type: "moderation-failed",
+								action: action.type,
+								reason: result,
+							});
 						}
+					})
+					.catch((error: Error) => {
+						this.logger?.error(
+							{ error, sessionId, action: action.type },
+							"Failed to apply moderation action",
+						);
 					});
+				break;
+			}
+
+			case "awareness": {
+				const session = this.sessions.get(sessionId);
+				if (!session) break;
+
+				// y-protocols awareness update, as sent by the binary protocol
+				if (Array.isArray(message.update)) {
+					awarenessProtocol.applyAwarenessUpdate(
+						session.awareness,
+						new Uint8Array(message.update),
+						ws,
+					);
+					break;
 				}
+
+				// Older clients send free-form presence, which is only relayed
+				session.connections.forEach((connection, conn) => {
+					if (conn !== ws && connection.protocol === "json") {
+						this.sendMessage(conn, message);
+					}
+				});
 				break;
 			}
 
@@ -281,16 +1001,225 @@ export class CollaborationManager {
 		}
 	}
 
+	/**
+	 * Whether the participant behind a connection may change the document
+	 */
+	private canConnectionEdit(ws: WebSocket, sessionId: string): boolean {
+		const session = this.sessions.get(sessionId);
+		const connection = session?.connections.get(ws);
+		return (
+			session !== undefined &&
+			connection !== undefined &&
+			this.connectionCanEdit(session, connection)
+		);
+	}
+
+	private connectionCanEdit(
+		session: CollaborationSession,
+		connection: Connection,
+	): boolean {
+		return session.locked ? connection.role === "host" : canEdit(connection.role);
+	}
+
+	/**
+	 * Tell a JSON client its role, so it can disable editing when it may not edit
+	 */
+	private sendRole(
+		ws: WebSocket,
+		session: CollaborationSession,
+		connection: Connection,
+	): void {
+		if (connection.protocol !== "json") return;
+		this.sendMessage(ws, {
+			type: "role",
+			role: connection.role,
+			canEdit: this.connectionCanEdit(session, connection),
+		});
+	}
+
+	/**
+	 * Carry out a host's moderation action. The session metadata is updated
+	 * first, so connections on every instance are handled consistently.
+	 */
+	async moderate(
+		sessionId: string,
+		requesterId: string,
+		action: ModerationAction,
+	): Promise<ModerationResult> {
+		if (action.type === "kick" || action.type === "transfer-host") {
+			if (action.participantId === requesterId) {
+				return "invalid-target";
+			}
+			// Host rights can only go to someone who is connected
+			if (
+				action.type === "transfer-host" &&
+				!(await redisClient.get(
+					`collab:presence:${sessionId}:${action.participantId}`,
+				))
+			) {
+				return "invalid-target";
+			}
+		}
+
+		let isHost = true;
+		const updated = await updateSessionMetadata(
+			sessionId,
+			(metadata): SessionMetadata | null => {
+				if (metadata.hostId !== requesterId) {
+					isHost = false;
+					return null;
+				}
+				switch (action.type) {
+					case "kick": {
+						if (!action.ban) return metadata;
+						const banned = new Set(metadata.bannedParticipants);
+						banned.add(action.participantId);
+						// Invites the banned participant may hold stop working too
+						return {
+							...metadata,
+							bannedParticipants: Array.from(banned),
+							inviteGeneration: (metadata.inviteGeneration ?? 0) + 1,
+						};
+					}
+					case "lock":
+					case "unlock":
+						return { ...metadata, locked: action.type === "lock" };
+					case "transfer-host":
+						return { ...metadata, hostId: action.participantId };
+				}
+			},
+		);
+		if (!updated) {
+			return isHost ? "not-found" : "not-host";
+		}
+
+		this.logger?.info(
+			{ sessionId, requesterId, action },
+			"Applied host moderation action",
+		);
+
+		this.applyModeration(sessionId, action, requesterId);
+		this.publishUpdate(
+			sessionId,
+			MESSAGE_MODERATION,
+			Buffer.from(JSON.stringify({ action, requesterId })),
+		);
+		return "ok";
+	}
+
+	/**
+	 * Apply a moderation action to this instance's connections and notify them
+	 */
+	private applyModeration(
+		sessionId: string,
+		action: ModerationAction,
+		requesterId: string,
+	): void {
+		const session = this.sessions.get(sessionId);
+		if (!session) return;
+
+		switch (action.type) {
+			case "kick": {
+				session.connections.forEach((connection, ws) => {
+					if (connection.participantId === action.participantId) {
+						ws.close(
+							CLOSE_REMOVED_BY_HOST,
+							action.ban ? "Banned by host" : "Removed by host",
+						);
+					}
+				});
+				this.broadcastParticipantUpdate(sessionId, {
+					type: "participant-removed",
+					participantId: action.participantId,
+					banned: action.ban,
+				});
+				break;
+			}
+
+			case "lock":
+			case "unlock": {
+				session.locked = action.type === "lock";
+				this.broadcastParticipantUpdate(sessionId, {
+					type: "session-locked",
+					locked: session.locked,
+				});
+				break;
+			}
+
+			case "transfer-host": {
+				session.connections.forEach((connection) => {
+					if (connection.participantId === action.participantId) {
+						connection.role = "host";
+					} else if (connection.role === "host") {
+						connection.role = "editor";
+					}
+				});
+				this.broadcastParticipantUpdate(sessionId, {
+					type: "host-changed",
+					hostId: action.participantId,
+					previousHostId: requesterId,
+				});
+				break;
+			}
+		}
+
+		// Locking and host changes affect who may edit
+		if (action.type !== "kick") {
+			session.connections.forEach((connection, ws) => {
+				this.sendRole(ws, session, connection);
+			});
+		}
+	}
+
+	/**
+	 * Apply a document update from a JSON client with the socket as origin.
+	 * Returns false when the update was dropped because the client is a viewer.
+	 */
+	private applyClientUpdate(
+		ws: WebSocket,
+		ydoc: Y.Doc,
+		update: number[],
+		sessionId: string,
+	): boolean {
+		if (!this.canConnectionEdit(ws, sessionId)) {
+			this.logger?.debug(
+				{ sessionId },
+				"Dropped document update from read-only participant",
+			);
+			return false;
+		}
+		Y.applyUpdate(ydoc, new Uint8Array(update), ws);
+		return true;
+	}
+
 	private handleDisconnection(
 		ws: WebSocket,
 		sessionId: string,
 		participantId: string,
 	): void {
 		const session = this.sessions.get(sessionId);
-		if (!session) return;
+		// Both "error" and "close" can report the same connection
+		if (!session || !session.connections.has(ws)) return;
 
+		const connection = session.connections.get(ws);
 		session.connections.delete(ws);
-		session.participants.delete(participantId);
+
+		// Remove the participant's cursor for everyone else
+		if (connection && connection.awarenessClients.size > 0) {
+			awarenessProtocol.removeAwarenessStates(
+				session.awareness,
+				Array.from(connection.awarenessClients),
+				null,
+			);
+		}
+
+		// The participant stays present while another of their tabs is open
+		const stillConnected = Array.from(session.connections.values()).some(
+			(other) => other.participantId === participantId,
+		);
+		if (!stillConnected) {
+			session.participants.delete(participantId);
+		}
 
 		this.logger?.info(
 			{
@@ -302,21 +1231,23 @@ export class CollaborationManager {
 			"Participant left collaboration session",
 		);
 
-		// Clean up participant presence
-		redisClient
-			.del(`collab:presence:${sessionId}:${participantId}`)
-			.catch((error: Error) => {
-				this.logger?.error(
-					{ error, sessionId, participantId },
-					"Failed to clean up participant presence",
-				);
-			});
+		if (!stillConnected) {
+			// Clean up participant presence
+			redisClient
+				.del(`collab:presence:${sessionId}:${participantId}`)
+				.catch((error: Error) => {
+					this.logger?.error(
+						{ error, sessionId, participantId },
+						"Failed to clean up participant presence",
+					);
+				});
 
-		// Notify other participants about the departure
-		this.broadcastParticipantUpdate(sessionId, {
-			type: "participant-left",
-			participantId,
-		});
+			// Notify other participants about the departure
+			this.broadcastParticipantUpdate(sessionId, {
+				type: "participant-left",
+				participantId,
+			});
+		}
 
 		// If no more connections, mark session for cleanup
 		if (session.connections.size === 0) {
@@ -332,7 +1263,7 @@ export class CollaborationManager {
 		const session = this.sessions.get(sessionId);
 		if (session) {
 			// Close all remaining connections
-			session.connections.forEach((ws) => {
+			session.connections.forEach((_protocol, ws) => {
 				if (ws.readyState === WebSocket.OPEN) {
 					ws.close(1000, "Session ended");
 				}
@@ -343,10 +1274,20 @@ export class CollaborationManager {
 			this.sessions.delete(sessionId);
 		}
 
-		// Clean up Redis data
+		// Clean up Redis data, unless another instance still serves the session
 		try {
+			const channel = updatesChannel(sessionId);
+			await redisClient.unsubscribe(channel);
+			if ((await redisClient.subscriberCount(channel)) > 0) {
+				this.logger?.info(
+					{ sessionId },
+					"Collaboration session unloaded, still active on another instance",
+				);
+				return;
+			}
+
 			await redisClient.del(`collab:session:${sessionId}`);
-			await redisClient.del(`collab:doc:${sessionId}`);
+			await deleteDocument(sessionId);
 
 			// Clean up presence data
 			const keys = await redisClient.keys(`collab:presence:${sessionId}:*`);
@@ -368,11 +1309,13 @@ export class CollaborationManager {
 		participantId: string,
 		presence: any,
 	): Promise<void> {
+		// Presence lasts as long as the session
+		const expiresAt = this.sessions.get(sessionId)?.expiresAt;
 		try {
 			await redisClient.set(
 				`collab:presence:${sessionId}:${participantId}`,
 				JSON.stringify(presence),
-				config.collaboration.sessionTTL,
+				expiresAt ? secondsUntil(expiresAt) : config.collaboration.sessionTTL,
 			);
 		} catch (error) {
 			this.logger?.error(
@@ -409,11 +1352,21 @@ export class CollaborationManager {
 		}
 	}
 
+	private sendBinary(ws: WebSocket, message: Uint8Array): void {
+		if (ws.readyState === WebSocket.OPEN) {
+			ws.send(message);
+		}
+	}
+
+	/**
+	 * Send a JSON control message to the JSON participants. Binary clients
+	 * learn about participants through awareness instead.
+	 */
 	private broadcastParticipantUpdate(sessionId: string, message: any): void {
 		const session = this.sessions.get(sessionId);
 		if (session) {
-			session.connections.forEach((ws) => {
-				if (ws.readyState === WebSocket.OPEN) {
+			session.connections.forEach((connection, ws) => {
+				if (connection.protocol === "json") {
 					this.sendMessage(ws, message);
 				}
 			});
@@ -426,18 +1379,91 @@ export class CollaborationManager {
 		}, config.collaboration.cleanupInterval);
 	}
 
+	private startSnapshotInterval(): void {
+		this.snapshotInterval = setInterval(() => {
+			this.takeAutomaticSnapshots();
+		}, config.collaboration.snapshotInterval);
+	}
+
+	/**
+	 * Snapshot the sessions that changed since their last automatic snapshot
+	 */
+	private async takeAutomaticSnapshots(): Promise<void> {
+		for (const [sessionId, session] of this.sessions.entries()) {
+			if (!session.changedSinceSnapshot) continue;
+			session.changedSinceSnapshot = false;
+			try {
+				// Another instance serving the session may have taken it already
+				if (!(await claimAutoSnapshot(sessionId))) continue;
+				await saveSnapshot(
+					sessionId,
+					Y.encodeStateAsUpdate(session.ydoc),
+					"Automatic snapshot",
+					null,
+					secondsUntil(session.expiresAt),
+				);
+			} catch (error) {
+				this.logger?.error(
+					{ error, sessionId },
+					"Failed to take automatic snapshot",
+				);
+			}
+		}
+	}
+
+	private startHeartbeatInterval(): void {
+		this.heartbeatInterval = setInterval(() => {
+			this.checkHeartbeats();
+		}, config.websocket.heartbeatInterval);
+	}
+
+	/**
+	 * Terminate connections that stayed silent since the last heartbeat and
+	 * ping the rest, with both a WebSocket ping frame and an application-level
+	 * message for clients behind proxies that swallow control frames
+	 */
+	private checkHeartbeats(): void {
+		// An awareness update for zero clients, which y-websocket accepts as a no-op
+		const binaryHeartbeat = this.encodeAwarenessMessage(new Uint8Array([0]));
+
+		for (const [sessionId, session] of this.sessions.entries()) {
+			session.connections.forEach((connection, ws) => {
+				if (!connection.isAlive) {
+					this.logger?.info(
+						{ sessionId, participantId: connection.participantId },
+						"Terminating unresponsive WebSocket connection",
+					);
+					ws.terminate();
+					this.handleDisconnection(ws, sessionId, connection.participantId);
+					return;
+				}
+
+				connection.isAlive = false;
+				if (ws.readyState !== WebSocket.OPEN) return;
+				ws.ping();
+				if (connection.protocol === "yjs") {
+					this.sendBinary(ws, binaryHeartbeat);
+				} else {
+					this.sendMessage(ws, { type: "ping", timestamp: Date.now() });
+				}
+			});
+		}
+	}
+
 	private async performPeriodicCleanup(): Promise<void> {
+		await this.renewActiveSessions();
+
 		const now = Date.now();
 		const sessionsToCleanup: string[] = [];
 
-		// Check for inactive sessions
+		// Check for expired sessions
 		for (const [sessionId, session] of this.sessions.entries()) {
-			if (now - session.lastActivity > config.collaboration.sessionTTL * 1000) {
+			if (now > session.expiresAt) {
 				sessionsToCleanup.push(sessionId);
 			}
 		}
 
-		// Clean up inactive sessions
+		// Clean up expired sessions
 		for (const sessionId of sessionsToCleanup) {
 			await this.cleanupSession(sessionId);
 		}
@@ -445,11 +1471,283 @@ export class CollaborationManager {
 		if (sessionsToCleanup.length > 0) {
 			this.logger?.info(
 				{ cleanedSessions: sessionsToCleanup.length },
-				"Cleaned up inactive collaboration sessions",
+				"Cleaned up expired collaboration sessions",
 			);
 		}
 	}
 
+	/**
+	 * Extend a session by `seconds`, up to its lifetime cap, and optionally
+	 * switch its auto-renewal. Only the host may do this.
+	 */
+	async extendSession(
+		sessionId: string,
+		requesterId: string,
+		seconds: number,
+		autoRenew?: boolean,
+	): Promise<ExtendResult> {
+		let isHost = true;
+		const updated = await this.updateExpiry(sessionId, (metadata) => {
+			if (metadata.hostId !== requesterId) {
+				isHost = false;
+				return null;
+			}
+			return {
+				...metadata,
+				expiresAt: Math.min(
+					Math.max(metadata.expiresAt, Date.now()) + seconds * 1000,
+					sessionLifetimeEnd(metadata),
+				),
+				autoRenew: autoRenew ?? metadata.autoRenew === true,
+			};
+		});
+		if (!updated) {
+			return { status: isHost ? "not-found" : "not-host" };
+		}
+
+		this.logger?.info(
+			{ sessionId, requesterId, expiresAt: updated.expiresAt },
+			"Collaboration session extended",
+		);
+		return {
+			status: "ok",
+			expiresAt: updated.expiresAt,
+			maxExpiresAt: sessionLifetimeEnd(updated),
+			autoRenew: updated.autoRenew === true,
+		};
+	}
+
+	/**
+	 * Push back the expiry of auto-renewing sessions that were edited since the
+	 * last check and are past half their renewal period
+	 */
+	private async renewActiveSessions(): Promise<void> {
+		const now = Date.now();
+		const renewal = config.collaboration.sessionTTL * 1000;
+
+		for (const [sessionId, session] of this.sessions.entries()) {
+			if (
+				!session.autoRenew ||
+				now - session.lastActivity > config.collaboration.cleanupInterval ||
+				session.expiresAt - now > renewal / 2
+			) {
+				continue;
+			}
+
+			try {
+				const updated = await this.updateExpiry(sessionId, (metadata) => {
+					if (!metadata.autoRenew) return null;
+					const expiresAt = Math.min(
+						Date.now() + renewal,
+						sessionLifetimeEnd(metadata),
+					);
+					return expiresAt > metadata.expiresAt
+						? { ...metadata, expiresAt }
+						: null;
+				});
+				if (updated) {
+					this.logger?.info(
+						{ sessionId, expiresAt: updated.expiresAt },
+						"Collaboration session renewed",
+					);
+				}
+			} catch (error) {
+				this.logger?.error(
+					{ error, sessionId },
+					"Failed to renew collaboration session",
+				);
+			}
+		}
+	}
+
+	/**
+	 * Change a session's expiry in its metadata, move the TTLs of its Redis
+	 * keys along and tell every instance's participants
+	 */
+	private async updateExpiry(
+		sessionId: string,
+		change: (metadata: SessionMetadata) => SessionMetadata | null,
+	): Promise<SessionMetadata | null> {
+		const updated = await updateSessionMetadata(sessionId, change);
+		if (!updated) {
+			return null;
+		}
+
+		await extendSessionKeys(sessionId, secondsUntil(updated.expiresAt));
+		const autoRenew = updated.autoRenew === true;
+		this.applyExpiry(sessionId, updated.expiresAt, autoRenew);
+		this.publishUpdate(
+			sessionId,
+			MESSAGE_EXPIRY,
+			Buffer.from(JSON.stringify({ expiresAt: updated.expiresAt, autoRenew })),
+		);
+		return updated;
+	}
+
+	/**
+	 * Record a session's new expiry on this instance and notify its participants
+	 */
+	private applyExpiry(
+		sessionId: string,
+		expiresAt: number,
+		autoRenew: boolean,
+	): void {
+		const session = this.sessions.get(sessionId);
+		if (!session) return;
+
+		session.expiresAt = expiresAt;
+		session.autoRenew = autoRenew;
+		this.broadcastParticipantUpdate(sessionId, {
+			type: "session-extended",
+			expiresAt,
+			autoRenew,
+		});
+	}
+
+	/**
+	 * Save a named snapshot of a session's current document. `expiresAt` is
+	 * the session's expiry, which the snapshot lasts until.
+	 */
+	async createSnapshot(
+		sessionId: string,
+		name: string,
+		createdBy: string,
+		expiresAt: number,
+	): Promise<SnapshotInfo | null> {
+		const session = this.sessions.get(sessionId);
+		const state = session
+			? Y.encodeStateAsUpdate(session.ydoc)
+			: await loadDocumentState(sessionId);
+		if (!state) {
+			return null;
+		}
+
+		const snapshot = await saveSnapshot(
+			sessionId,
+			state,
+			name,
+			createdBy,
+			secondsUntil(expiresAt),
+		);
+		this.logger?.info(
+			{ sessionId, snapshotId: snapshot.id, createdBy },
+			"Saved collaboration snapshot",
+		);
+		this.notifyParticipants(sessionId, { type: "snapshot-created", snapshot });
+		return snapshot;
+	}
+
+	/**
+	 * Bring a session's document back to a snapshot. The change is applied as
+	 * a new update on top of the history, so it syncs to every client and can
+	 * itself be undone; the current state is snapshotted first. `expiresAt` is
+	 * the session's expiry, which the written keys last until.
+	 */
+	async restoreSnapshot(
+		sessionId: string,
+		snapshotId: string,
+		restoredBy: string,
+		expiresAt: number,
+	): Promise<SnapshotInfo | null> {
+		const snapshot = await loadSnapshot(sessionId, snapshotId);
+		if (!snapshot) {
+			return null;
+		}
+		const text = documentText(snapshot.state);
+
+		const session = this.sessions.get(sessionId);
+		const state = session
+			? Y.encodeStateAsUpdate(session.ydoc)
+			: await loadDocumentState(sessionId);
+		if (!state) {
+			return null;
+		}
+		await saveSnapshot(
+			sessionId,
+			state,
+			`Before restoring "${snapshot.info.name}"`,
+			restoredBy,
+			secondsUntil(expiresAt),
+		);
+
+		// Build the change on a copy of the document, whose fresh client ID
+		// attributes the restored text to whoever restored it
+		const ydoc = new Y.Doc();
+		Y.applyUpdate(
+			ydoc,
+			session ? Y.encodeStateAsUpdate(session.ydoc) : state,
+		);
+		const stateVector = Y.encodeStateVector(ydoc);
+		replaceText(ydoc.getText("content"), text);
+		const update = Y.encodeStateAsUpdate(ydoc, stateVector);
+		await recordAuthors(
+			sessionId,
+			new Map([[ydoc.clientID, { participantId: restoredBy, name: null }]]),
+			secondsUntil(expiresAt),
+		);
+		ydoc.destroy();
+
+		if (session) {
+			// Persisted, broadcast and published like any other change
+			Y.applyUpdate(session.ydoc, update);
+		} else {
+			// Not loaded here: store it and hand it to the other instances
+			if (
+				await appendDocumentUpdate(sessionId, update, secondsUntil(expiresAt))
+			) {
+				this.compactInBackground(sessionId, expiresAt);
+			}
+			this.publishUpdate(sessionId, MESSAGE_SYNC, update);
+		}
+
+		this.logger?.info(
+			{ sessionId, snapshotId, restoredBy },
+			"Restored collaboration snapshot",
+		);
+		this.notifyParticipants(sessionId, {
+			type: "snapshot-restored",
+			snapshot: snapshot.info,
+			restoredBy,
+		});
+		return snapshot.info;
+	}
+
+	/**
+	 * Send a JSON notification to the session's JSON participants on every
+	 * instance
+	 */
+	private notifyParticipants(sessionId: string, message: object): void {
+		this.broadcastParticipantUpdate(sessionId, message);
+		this.publishUpdate(
+			sessionId,
+			MESSAGE_NOTIFICATION,
+			Buffer.from(JSON.stringify(message)),
+		);
+	}
+
+	/**
+	 * The note text of a session split into runs by author
+	 */
+	async getSessionAuthorship(
+		sessionId: string,
+	): Promise<AuthorshipRun[] | null> {
+		const authors = await loadAuthors(sessionId);
+		const session = this.sessions.get(sessionId);
+		if (session) {
+			return attributeText(session.ydoc.getText("content"), authors);
+		}
+
+		const state = await loadDocumentState(sessionId);
+		if (!state) {
+			return null;
+		}
+		const ydoc = new Y.Doc();
+		Y.applyUpdate(ydoc, state);
+		const runs = attributeText(ydoc.getText("content"), authors);
+		ydoc.destroy();
+		return runs;
+	}
+
 	async getSessionContent(sessionId: string): Promise<string | null> {
 		try {
 			// First try to get from active session
@@ -460,17 +1758,8 @@ export class CollaborationManager {
 			}
 
 			// If not active, try to restore from Redis
-			const docState = await redisClient.getBuffer(`collab:doc:${sessionId}`);
-			if (docState) {
-				const tempDoc = new Y.Doc();
-				Y.applyUpdate(tempDoc, docState);
-				const yText = tempDoc.getText("content");
-				const content = yText.toString();
-				tempDoc.destroy();
-				return content;
-			}
-
-			return null;
+			const docState = await loadDocumentState(sessionId);
+			return docState ? documentText(docState) : null;
 		} catch (error) {
 			this.logger?.error(
 				{ error, sessionId },
@@ -484,6 +1773,12 @@ export class CollaborationManager {
 		if (this.cleanupInterval) {
 			clearInterval(this.cleanupInterval);
 		}
+		if (this.heartbeatInterval) {
+			clearInterval(this.heartbeatInterval);
+		}
+		if (this.snapshotInterval) {
+			clearInterval(this.snapshotInterval);
+		}
 
 		// Clean up all active sessions
 		const sessionIds = Array.from(this.sessions.keys());
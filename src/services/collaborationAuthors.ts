@@ -0,0 +1,101 @@
+import * as Y from "yjs";
+import redisClient from "../utils/redis";
+import { EXTEND_EXPIRY_LUA, documentKeys } from "./collaborationDocuments";
+
+/**
+ * Participant behind a Yjs client ID
+ */
+export interface Author {
+	participantId: string;
+	name: string | null;
+}
+
+/**
+ * A stretch of the note text written by one participant
+ */
+export interface AuthorshipRun {
+	text: string;
+	// null for text whose author is unknown
+	participantId: string | null;
+	name: string | null;
+}
+
+/**
+ * Records Yjs client IDs that have no author yet; the first claim wins.
+ * KEYS[1] = authors hash, ARGV[1] = TTL in seconds,
+ * ARGV[2..] = client ID and author JSON pairs
+ */
+const RECORD_AUTHORS_SCRIPT = `${EXTEND_EXPIRY_LUA}
+for i = 2, #ARGV, 2 do
+	redis.call("HSETNX", KEYS[1], ARGV[i], ARGV[i + 1])
+end
+extendExpiry(KEYS[1], ARGV[1])
+return 1
+`;
+
+/**
+ * Remember which participant wrote with each Yjs client ID, for at least
+ * `ttl` seconds
+ */
+export async function recordAuthors(
+	sessionId: string,
+	authors: Map<number, Author>,
+	ttl: number,
+): Promise<void> {
+	const args: (string | number)[] = [ttl];
+	authors.forEach((author, clientId) => {
+		args.push(clientId, JSON.stringify(author));
+	});
+	await redisClient.eval(
+		RECORD_AUTHORS_SCRIPT,
+		[documentKeys(sessionId).authors],
+		args,
+	);
+}
+
+/**
+ * Load the authors of a session's Yjs client IDs
+ */
+export async function loadAuthors(sessionId: string): Promise<Map<number, Author>> {
+	const stored = await redisClient.hgetall(documentKeys(sessionId).authors);
+	const authors = new Map<number, Author>();
+	for (const [clientId, author] of Object.entries(stored)) {
+		authors.set(Number(clientId), JSON.parse(author));
+	}
+	return authors;
+}
+
+/**
+ * Split a text into runs by author. Text written without a display name,
+ * such as restored snapshots, gets the name the participant used elsewhere.
+ */
+export function attributeText(
+	ytext: Y.Text,
+	authors: Map<number, Author>,
+): AuthorshipRun[] {
+	const names = new Map<string, string>();
+	authors.forEach(({ participantId, name }) => {
+		if (name && !names.has(participantId)) {
+			names.set(participantId, name);
+		}
+	});
+
+	const runs: AuthorshipRun[] = [];
+	for (let item = ytext._start; item; item = item.right) {
+		if (item.deleted || !(item.content instanceof Y.ContentString)) {
+			continue;
+		}
+		const participantId = authors.get(item.id.client)?.participantId ?? null;
+		const last = runs[runs.length - 1];
+		if (last && last.participantId === participantId) {
+			last.text += item.content.str;
+		} else {
+			runs.push({
+				text: item.content.str,
+				participantId,
+				name: participantId ? (names.get(participantId) ?? null) : null,
+			});
+		}
+	}
+	return runs;
+}
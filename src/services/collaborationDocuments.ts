@@ -0,0 +1,200 @@
+import * as Y from "yjs";
+import config from "../config";
+import redisClient from "../utils/redis";
+
+/**
+ * Lua helper that sets a key's TTL unless it already lives longer, so the
+ * keys of an extended session are not cut short by later writes
+ */
+export const EXTEND_EXPIRY_LUA = `
+local function extendExpiry(key, ttl)
+	if redis.call("TTL", key) < tonumber(ttl) then
+		redis.call("EXPIRE", key, ttl)
+	end
+end
+`;
+
+/**
+ * Appends an update to a session's document log and refreshes its expiry.
+ * KEYS[1] = log, KEYS[2] = log size in bytes, KEYS[3] = compaction generation
+ * ARGV[1] = update, ARGV[2] = update size in bytes, ARGV[3] = TTL in seconds
+ * Returns { entries in the log, bytes in the log }.
+ */
+const APPEND_UPDATE_SCRIPT = `${EXTEND_EXPIRY_LUA}
+local count = redis.call("RPUSH", KEYS[1], ARGV[1])
+local size = redis.call("INCRBY", KEYS[2], ARGV[2])
+extendExpiry(KEYS[1], ARGV[3])
+extendExpiry(KEYS[2], ARGV[3])
+extendExpiry(KEYS[3], ARGV[3])
+return { count, size }
+`;
+
+/**
+ * Replaces the snapshot with one that includes the first ARGV[2] log entries
+ * and drops those entries, unless another compaction ran since the log was read.
+ * KEYS[1] = snapshot, KEYS[2] = log, KEYS[3] = log size, KEYS[4] = generation
+ * ARGV[1] = new snapshot, ARGV[2] = entries compacted, ARGV[3] = bytes compacted,
+ * ARGV[4] = generation that was read, ARGV[5] = TTL in seconds
+ * Returns 0 when another compaction won and 1 on success.
+ */
+const COMPACT_SCRIPT = `${EXTEND_EXPIRY_LUA}
+local generation = redis.call("GET", KEYS[4]) or "0"
+if generation ~= ARGV[4] then
+	return 0
+end
+redis.call("SET", KEYS[1], ARGV[1], "KEEPTTL")
+extendExpiry(KEYS[1], ARGV[5])
+redis.call("LTRIM", KEYS[2], ARGV[2], -1)
+redis.call("DECRBY", KEYS[3], ARGV[3])
+redis.call("INCR", KEYS[4])
+extendExpiry(KEYS[4], ARGV[5])
+return 1
+`;
+
+/**
+ * Stores the initial snapshot unless the document already has one.
+ * KEYS[1] = snapshot, ARGV[1] = snapshot, ARGV[2] = TTL in seconds
+ */
+const INITIALIZE_SCRIPT = `
+return redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[2], "NX")
+`;
+
+/**
+ * Redis keys holding a collaboration document: a compacted snapshot plus
+ * the log of updates made since, the snapshots saved by participants and
+ * the authors of its Yjs client IDs
+ */
+export function documentKeys(sessionId: string) {
+	const snapshot = `collab:doc:${sessionId}`;
+	return {
+		snapshot,
+		log: `${snapshot}:log`,
+		logSize: `${snapshot}:logsize`,
+		generation: `${snapshot}:generation`,
+		savedSnapshots: `${snapshot}:snapshots`,
+		savedSnapshotInfo: `${snapshot}:snapshotinfo`,
+		savedSnapshotData: `${snapshot}:snapshotdata`,
+		autoSnapshotLock: `${snapshot}:autosnapshot`,
+		authors: `${snapshot}:authors`,
+	};
+}
+
+/**
+ * Load a document as a single update built from its snapshot and log tail
+ */
+export async function loadDocumentState(
+	sessionId: string,
+): Promise<Uint8Array | null> {
+	const keys = documentKeys(sessionId);
+
+	// Read the log before the snapshot: a compaction in between moves entries
+	// into the snapshot, so nothing is missed, at worst read twice
+	const log = await redisClient.lrangeBuffer(keys.log, 0, -1);
+	const snapshot = await redisClient.getBuffer(keys.snapshot);
+
+	const updates = snapshot ? [snapshot, ...log] : log;
+	if (updates.length === 0) {
+		return null;
+	}
+	return updates.length === 1
+		? new Uint8Array(updates[0] as Buffer)
+		: Y.mergeUpdates(updates);
+}
+
+/**
+ * Text of the shared "content" type of a document state
+ */
+export function documentText(state: Uint8Array): string {
+	const ydoc = new Y.Doc();
+	Y.applyUpdate(ydoc, state);
+	const text = ydoc.getText("content").toString();
+	ydoc.destroy();
+	return text;
+}
+
+/**
+ * Store the initial state of a new document for `ttl` seconds. Does nothing
+ * if the document was already initialized, e.g. by another instance.
+ */
+export async function initializeDocument(
+	sessionId: string,
+	state: Uint8Array,
+	ttl: number,
+): Promise<void> {
+	await redisClient.eval(
+		INITIALIZE_SCRIPT,
+		[documentKeys(sessionId).snapshot],
+		[Buffer.from(state), ttl],
+	);
+}
+
+/**
+ * Append an update to a document's log, keeping the document for at least
+ * `ttl` seconds. Returns whether the log has grown past the compaction
+ * thresholds.
+ */
+export async function appendDocumentUpdate(
+	sessionId: string,
+	update: Uint8Array,
+	ttl: number,
+): Promise<boolean> {
+	const keys = documentKeys(sessionId);
+	const [count, size] = (await redisClient.eval(
+		APPEND_UPDATE_SCRIPT,
+		[keys.log, keys.logSize, keys.generation],
+		[Buffer.from(update), update.length, ttl],
+	)) as [number, number];
+
+	return (
+		count >= config.collaboration.compactionMaxUpdates ||
+		size >= config.collaboration.compactionMaxBytes
+	);
+}
+
+/**
+ * Merge a document's log into its snapshot. Updates appended meanwhile stay
+ * in the log. Returns false when there was nothing to compact or another
+ * instance compacted concurrently.
+ */
+export async function compactDocument(
+	sessionId: string,
+	ttl: number,
+): Promise<boolean> {
+	const keys = documentKeys(sessionId);
+	const generation = (await redisClient.get(keys.generation)) ?? "0";
+	const log = await redisClient.lrangeBuffer(keys.log, 0, -1);
+	if (log.length === 0) {
+		return false;
+	}
+	const snapshot = await redisClient.getBuffer(keys.snapshot);
+
+	// Rebuild the document so deleted content is garbage collected
+	const ydoc = new Y.Doc();
+	if (snapshot) {
+		Y.applyUpdate(ydoc, snapshot);
+	}
+	log.forEach((update) => Y.applyUpdate(ydoc, update));
+	const compacted = Y.encodeStateAsUpdate(ydoc);
+	ydoc.destroy();
+
+	const bytes = log.reduce((total, update) => total + update.length, 0);
+	const result = (await redisClient.eval(
+		COMPACT_SCRIPT,
+		[keys.snapshot, keys.log, keys.logSize, keys.generation],
+		[
+			Buffer.from(compacted),
+			log.length,
+			bytes,
+			generation,
+			ttl,
+		],
+	)) as number;
+	return result === 1;
+}
+
+/**
+ * Delete a document's snapshot and log
+ */
+export async function deleteDocument(sessionId: string): Promise<void> {
+	await redisClient.del(...Object.values(documentKeys(sessionId)));
+}
@@ -0,0 +1,158 @@
+import config from "../config";
+import redisClient from "../utils/redis";
+import { EXTEND_EXPIRY_LUA, documentKeys } from "./collaborationDocuments";
+import {
+	type InviteRole,
+	type ParticipantRole,
+	canEdit,
+} from "./collaborationTokens";
+
+/**
+ * Metadata of a collaboration session, stored at collab:session:{sessionId}
+ */
+export interface SessionMetadata {
+	noteId: string;
+	noteTitle: string;
+	noteContent: string;
+	creatorId: string;
+	// Participant holding host rights; changes when the host hands them over
+	hostId: string;
+	// Role of participants who join without an invite
+	defaultRole?: InviteRole;
+	// Only the host may edit while the session is locked
+	locked?: boolean;
+	// Participants banned by the host for the rest of the session
+	bannedParticipants?: string[];
+	// Invites from earlier generations are revoked; bumped on every ban
+	inviteGeneration?: number;
+	participants: string[];
+	createdAt: number;
+	expiresAt: number;
+	// Extend the session while it is being edited
+	autoRenew?: boolean;
+}
+
+/**
+ * Latest time a session can be extended to. Session tokens are valid until
+ * then, so they outlive extensions.
+ */
+export function sessionLifetimeEnd(metadata: SessionMetadata): number {
+	return metadata.createdAt + config.collaboration.maxSessionLifetime * 1000;
+}
+
+/**
+ * Role a participant currently has. Host rights follow the session's host
+ * rather than the role the participant's token was issued with.
+ */
+export function effectiveRole(
+	metadata: SessionMetadata,
+	participantId: string,
+	tokenRole: ParticipantRole,
+): ParticipantRole {
+	if (participantId === metadata.hostId) {
+		return "host";
+	}
+	return tokenRole === "host" ? "editor" : tokenRole;
+}
+
+/**
+ * Whether a role may change the session's document right now
+ */
+export function canEditSession(
+	metadata: SessionMetadata,
+	role: ParticipantRole,
+): boolean {
+	return metadata.locked ? role === "host" : canEdit(role);
+}
+
+// Attempts before giving up on metadata that keeps changing underneath us
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Replaces session metadata, keeping its expiry, unless it changed since it
+ * was read.
+ * KEYS[1] = collab:session:{sessionId}
+ * ARGV[1] = stored bytes that were read, ARGV[2] = new metadata
+ * Returns -1 when the session is gone, 0 when it was changed concurrently
+ * and 1 on success.
+ */
+const REPLACE_METADATA_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if not current then
+	return -1
+end
+if current ~= ARGV[1] then
+	return 0
+end
+redis.call("SET", KEYS[1], ARGV[2], "KEEPTTL")
+return 1
+`;
+
+/**
+ * Apply a change to a session's metadata, retrying when it is modified
+ * concurrently. `change` returns null to leave the metadata untouched.
+ * Returns the stored metadata, or null when the session is gone or the
+ * change was declined.
+ */
+export async function updateSessionMetadata(
+	sessionId: string,
+	change: (metadata: SessionMetadata) => SessionMetadata | null,
+): Promise<SessionMetadata | null> {
+	const key = `collab:session:${sessionId}`;
+
+	for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+		const raw = await redisClient.getBuffer(key);
+		if (!raw) {
+			return null;
+		}
+		const metadata: SessionMetadata = JSON.parse(
+			(await redisClient.decode(raw)) as string,
+		);
+
+		const updated = change(metadata);
+		if (!updated) {
+			return null;
+		}
+
+		const status = (await redisClient.eval(REPLACE_METADATA_SCRIPT, [key], [
+			raw,
+			await redisClient.encode(JSON.stringify(updated)),
+		])) as number;
+		if (status < 0) {
+			return null;
+		}
+		if (status === 1) {
+			return updated;
+		}
+	}
+
+	throw new Error("Session metadata kept changing concurrently");
+}
+
+/**
+ * Sets the TTL of every given key that exists, unless it already lives longer.
+ * ARGV[1] = TTL in seconds
+ */
+const EXTEND_KEYS_SCRIPT = `${EXTEND_EXPIRY_LUA}
+for _, key in ipairs(KEYS) do
+	extendExpiry(key, ARGV[1])
+end
+return 1
+`;
+
+/**
+ * Keep a session's metadata, document and presence keys for `ttl` seconds
+ */
+export async function extendSessionKeys(
+	sessionId: string,
+	ttl: number,
+): Promise<void> {
+	// The automatic snapshot lock keeps its own, shorter expiry
+	const { autoSnapshotLock, ...documents } = documentKeys(sessionId);
+	const presence = await redisClient.keys(`collab:presence:${sessionId}:*`);
+	await redisClient.eval(
+		EXTEND_KEYS_SCRIPT,
+		[`collab:session:${sessionId}`, ...Object.values(documents), ...presence],
+		[ttl],
+	);
+}
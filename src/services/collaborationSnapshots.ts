@@ -0,0 +1,126 @@
+import { randomUUID } from "node:crypto";
+import config from "../config";
+import redisClient from "../utils/redis";
+import { EXTEND_EXPIRY_LUA, documentKeys } from "./collaborationDocuments";
+
+/**
+ * A named, point-in-time copy of a session's document
+ */
+export interface SnapshotInfo {
+	id: string;
+	name: string;
+	createdAt: number;
+	// Participant who saved it, or null for automatic snapshots
+	createdBy: string | null;
+	automatic: boolean;
+	// Size of the stored document state in bytes
+	size: number;
+}
+
+/**
+ * Stores a snapshot and drops the oldest ones beyond the limit.
+ * KEYS[1] = snapshot IDs, oldest first, KEYS[2] = info hash, KEYS[3] = data hash
+ * ARGV[1] = ID, ARGV[2] = info JSON, ARGV[3] = document state,
+ * ARGV[4] = snapshots kept, ARGV[5] = TTL in seconds
+ */
+const SAVE_SNAPSHOT_SCRIPT = `${EXTEND_EXPIRY_LUA}
+redis.call("RPUSH", KEYS[1], ARGV[1])
+redis.call("HSET", KEYS[2], ARGV[1], ARGV[2])
+redis.call("HSET", KEYS[3], ARGV[1], ARGV[3])
+while redis.call("LLEN", KEYS[1]) > tonumber(ARGV[4]) do
+	local oldest = redis.call("LPOP", KEYS[1])
+	redis.call("HDEL", KEYS[2], oldest)
+	redis.call("HDEL", KEYS[3], oldest)
+end
+for i = 1, 3 do
+	extendExpiry(KEYS[i], ARGV[5])
+end
+return 1
+`;
+
+/**
+ * Takes the automatic snapshot slot of a session, so only one instance
+ * snapshots a session that several of them serve.
+ * KEYS[1] = lock, ARGV[1] = lock duration in milliseconds
+ */
+const CLAIM_AUTO_SNAPSHOT_SCRIPT = `
+return redis.call("SET", KEYS[1], "1", "PX", ARGV[1], "NX")
+`;
+
+/**
+ * Save a snapshot of a document state, kept for at least `ttl` seconds
+ */
+export async function saveSnapshot(
+	sessionId: string,
+	state: Uint8Array,
+	name: string,
+	createdBy: string | null,
+	ttl: number,
+): Promise<SnapshotInfo> {
+	const keys = documentKeys(sessionId);
+	const info: SnapshotInfo = {
+		id: randomUUID(),
+		name,
+		createdAt: Date.now(),
+		createdBy,
+		automatic: createdBy === null,
+		size: state.length,
+	};
+
+	await redisClient.eval(
+		SAVE_SNAPSHOT_SCRIPT,
+		[keys.savedSnapshots, keys.savedSnapshotInfo, keys.savedSnapshotData],
+		[
+			info.id,
+			JSON.stringify(info),
+			Buffer.from(state),
+			config.collaboration.maxSnapshots,
+			ttl,
+		],
+	);
+	return info;
+}
+
+/**
+ * List a session's snapshots, newest first
+ */
+export async function listSnapshots(sessionId: string): Promise<SnapshotInfo[]> {
+	const keys = documentKeys(sessionId);
+	const ids = await redisClient.lrange(keys.savedSnapshots, 0, -1);
+	const infos = await redisClient.hgetall(keys.savedSnapshotInfo);
+
+	return ids
+		.reverse()
+		.filter((id) => infos[id])
+		.map((id) => JSON.parse(infos[id] as string) as SnapshotInfo);
+}
+
+/**
+ * Load a snapshot with its document state
+ */
+export async function loadSnapshot(
+	sessionId: string,
+	snapshotId: string,
+): Promise<{ info: SnapshotInfo; state: Uint8Array } | null> {
+	const keys = documentKeys(sessionId);
+	const info = await redisClient.hget(keys.savedSnapshotInfo, snapshotId);
+	const state = await redisClient.hgetBuffer(keys.savedSnapshotData, snapshotId);
+	if (!info || !state) {
+		return null;
+	}
+	return { info: JSON.parse(info), state: new Uint8Array(state) };
+}
+
+/**
+ * Claim the next automatic snapshot of a session. Returns false when another
+ * instance took one within the snapshot interval.
+ */
+export async function claimAutoSnapshot(sessionId: string): Promise<boolean> {
+	const result = await redisClient.eval(
+		CLAIM_AUTO_SNAPSHOT_SCRIPT,
+		[documentKeys(sessionId).autoSnapshotLock],
+		// Half an interval, so the claiming instance's next tick finds it free
+		[Math.floor(config.collaboration.snapshotInterval / 2)],
+	);
+	return result === "OK";
+}
@@ -0,0 +1,131 @@
+import config from "../config";
+import { signToken, verifySignedToken } from "../utils/token";
+
+export type ParticipantRole = "host" | "editor" | "viewer";
+
+/**
+ * Roles that can be handed out through invites or chosen when joining
+ */
+export type InviteRole = Exclude<ParticipantRole, "host">;
+
+/**
+ * Claims of a signed collaboration session token
+ */
+export interface SessionTokenClaims {
+	sessionId: string;
+	participantId: string;
+	role: ParticipantRole;
+	// Expiry in milliseconds since the epoch
+	expiresAt: number;
+}
+
+/**
+ * Claims of a signed invite, which lets anyone holding it join a session
+ * with the given role
+ */
+export interface InviteTokenClaims {
+	sessionId: string;
+	role: InviteRole;
+	invite: true;
+	// Session's invite generation when issued; a ban starts a new one
+	generation: number;
+	// Expiry in milliseconds since the epoch
+	expiresAt: number;
+}
+
+/**
+ * Whether a role may change the document
+ */
+export function canEdit(role: ParticipantRole): boolean {
+	return role !== "viewer";
+}
+
+/**
+ * Issue a token granting a participant access to a session until `expiresAt`
+ */
+export function issueSessionToken(
+	sessionId: string,
+	participantId: string,
+	role: ParticipantRole,
+	expiresAt: number,
+): string {
+	const claims: SessionTokenClaims = {
+		sessionId,
+		participantId,
+		role,
+		expiresAt,
+	};
+	return signToken(claims, config.collaboration.tokenSecret);
+}
+
+/**
+ * Verify a session token for the given session. Returns null when the token
+ * is missing, forged, expired or issued for another session.
+ */
+export function verifySessionToken(
+	token: unknown,
+	sessionId: string,
+): SessionTokenClaims | null {
+	const claims = verifySignedToken(token, config.collaboration.tokenSecret) as
+		| Partial<SessionTokenClaims>
+		| null;
+	if (
+		!claims ||
+		claims.sessionId !== sessionId ||
+		typeof claims.participantId !== "string" ||
+		(claims.role !== "host" &&
+			claims.role !== "editor" &&
+			claims.role !== "viewer") ||
+		typeof claims.expiresAt !== "number" ||
+		Date.now() > claims.expiresAt
+	) {
+		return null;
+	}
+	return claims as SessionTokenClaims;
+}
+
+/**
+ * Issue an invite for joining a session with the given role, valid while the
+ * session's invite generation stays the same
+ */
+export function issueInviteToken(
+	sessionId: string,
+	role: InviteRole,
+	generation: number,
+	expiresAt: number,
+): string {
+	const claims: InviteTokenClaims = {
+		sessionId,
+		role,
+		invite: true,
+		generation,
+		expiresAt,
+	};
+	return signToken(claims, config.collaboration.tokenSecret);
+}
+
+/**
+ * Verify an invite for the given session and its current invite generation.
+ * Session tokens are not accepted.
+ */
+export function verifyInviteToken(
+	token: unknown,
+	sessionId: string,
+	generation: number,
+): InviteTokenClaims | null {
+	const claims = verifySignedToken(token, config.collaboration.tokenSecret) as
+		| Partial<InviteTokenClaims>
+		| null;
+	if (
+		!claims ||
+		claims.invite !== true ||
+		claims.sessionId !== sessionId ||
+		(claims.role !== "editor" && claims.role !== "viewer") ||
+		claims.generation !== generation ||
+		typeof claims.expiresAt !== "number" ||
+		Date.now() > claims.expiresAt
+	) {
+		return null;
+	}
+	return claims as InviteTokenClaims;
+}
@@ -0,0 +1,611 @@
+import type { EncryptedPayload, ShareBundleItem } from "../schemas";
+import config from "../config";
+import { verifyPassword } from "../utils/password";
+import redisClient from "../utils/redis";
+import { signToken, verifySignedToken, verifyToken } from "../utils/token";
+
+export interface NoteBase {
+	createdAt: string;
+	updatedAt: string;
+	version: number;
+	expiresAt: string;
+	maxViews: number | null;
+	passwordProtected: boolean;
+}
+
+export interface PlainNote extends NoteBase {
+	mode: "plain";
+	title: string;
+	content: string;
+}
+
+/**
+ * End-to-end encrypted note. The server stores the payload verbatim and
+ * never sees the key, which the client keeps in the URL fragment.
+ */
+export interface EncryptedNote extends NoteBase {
+	mode: "encrypted";
+	encrypted: EncryptedPayload;
+}
+
+/**
+ * Several notes shared together under one title
+ */
+export interface BundleNote extends NoteBase {
+	mode: "bundle";
+	title: string;
+	notes: ShareBundleItem[];
+}
+
+export type Note = PlainNote | EncryptedNote | BundleNote;
+
+export type NoteBody =
+	| Omit<PlainNote, keyof NoteBase>
+	| Omit<EncryptedNote, keyof NoteBase>
+	| Omit<BundleNote, keyof NoteBase>;
+
+export interface NoteRead {
+	note: Note;
+	remainingViews: number | null;
+}
+
+export interface AttachmentMeta {
+	id: string;
+	filename: string;
+	contentType: string;
+	size: number;
+	createdAt: string;
+}
+
+export interface Attachment {
+	meta: AttachmentMeta;
+	data: Buffer;
+}
+
+/**
+ * A note together with the exact bytes it is stored as, used to detect
+ * concurrent changes when replacing it
+ */
+export interface StoredNote {
+	note: Note;
+	raw: Buffer;
+}
+
+export interface NoteStats {
+	note: Note;
+	viewCount: number;
+	remainingViews: number | null;
+}
+
+/**
+ * Atomically reads a note, counts the view and spends one unit of its view budget.
+ * KEYS[1] = note:{shareId}, KEYS[2] = note:{shareId}:views,
+ * KEYS[3] = note:{shareId}:viewcount, KEYS[4] = note:{shareId}:versions,
+ * remaining KEYS are the note's other keys
+ * ARGV[1] = stored record of the requested version, empty for the current one,
+ * ARGV[2] = number of trailing KEYS that linger, ARGV[3] = grace period in seconds
+ * Returns nil when the note or the requested version is gone, otherwise
+ * { note, remainingViews } where remainingViews is -1 for notes without a
+ * view limit. Once the budget is used up, the lingering KEYS expire within
+ * the grace period and all others are deleted.
+ */
+const CONSUME_VIEW_SCRIPT = `
+local note = redis.call("GET", KEYS[1])
+if not note then
+	return nil
+end
+if ARGV[1] ~= "" and ARGV[1] ~= note then
+	local found = false
+	for _, entry in ipairs(redis.call("LRANGE", KEYS[4], 0, -1)) do
+		if entry == ARGV[1] then
+			found = true
+			break
+		end
+	end
+	if not found then
+		return nil
+	end
+end
+if redis.call("EXISTS", KEYS[3]) == 1 then
+	redis.call("INCR", KEYS[3])
+end
+if redis.call("EXISTS", KEYS[2]) == 0 then
+	return { note, -1 }
+end
+local remaining = redis.call("DECR", KEYS[2])
+if remaining <= 0 then
+	local deleted = #KEYS - tonumber(ARGV[2])
+	redis.call("DEL", unpack(KEYS, 1, deleted))
+	for i = deleted + 1, #KEYS do
+		if redis.call("PTTL", KEYS[i]) > tonumber(ARGV[3]) * 1000 then
+			redis.call("EXPIRE", KEYS[i], ARGV[3])
+		end
+	end
+end
+return { note, remaining }
+`;
+
+/**
+ * Replaces a note if it has not changed since it was read, keeping the
+ * previous record in its version history.
+ * KEYS[1] = note:{shareId}, KEYS[2] = note:{shareId}:versions
+ * ARGV[1] = record that was read, ARGV[2] = new record, ARGV[3] = versions to keep
+ * Returns -1 when the note is gone, 0 on a concurrent change and 1 on success.
+ */
+const UPDATE_NOTE_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if not current then
+	return -1
+end
+if current ~= ARGV[1] then
+	return 0
+end
+local ttl = redis.call("PTTL", KEYS[1])
+redis.call("RPUSH", KEYS[2], current)
+redis.call("LTRIM", KEYS[2], -tonumber(ARGV[3]), -1)
+redis.call("SET", KEYS[1], ARGV[2], "KEEPTTL")
+if ttl > 0 then
+	redis.call("PEXPIRE", KEYS[2], ttl)
+end
+return 1
+`;
+
+/**
+ * Stores an attachment next to a note, expiring together with it.
+ * KEYS[1] = note:{shareId}, KEYS[2] = note:{shareId}:attachments,
+ * KEYS[3] = note:{shareId}:attachmentmeta
+ * ARGV[1] = id, ARGV[2] = data, ARGV[3] = metadata JSON,
+ * ARGV[4] = max attachments, ARGV[5] = max total bytes
+ * Returns -1 when the note is gone, 0 when the count limit is reached,
+ * -2 when the size limit would be exceeded and 1 on success.
+ */
+const ADD_ATTACHMENT_SCRIPT = `
+local ttl = redis.call("PTTL", KEYS[1])
+if ttl <= 0 then
+	return -1
+end
+local ids = redis.call("HKEYS", KEYS[2])
+if #ids >= tonumber(ARGV[4]) then
+	return 0
+end
+local total = string.len(ARGV[2])
+for _, id in ipairs(ids) do
+	total = total + redis.call("HSTRLEN", KEYS[2], id)
+end
+if total > tonumber(ARGV[5]) then
+	return -2
+end
+redis.call("HSET", KEYS[2], ARGV[1], ARGV[2])
+redis.call("HSET", KEYS[3], ARGV[1], ARGV[3])
+redis.call("PEXPIRE", KEYS[2], ttl)
+redis.call("PEXPIRE", KEYS[3], ttl)
+return 1
+`;
+
+/**
+ * Reserves one password attempt within the attempt window.
+ * KEYS[1] = note:{shareId}:attempts, ARGV[1] = window in seconds
+ * Returns the number of attempts made in the current window.
+ */
+const RESERVE_ATTEMPT_SCRIPT = `
+local attempts = redis.call("INCR", KEYS[1])
+if attempts == 1 then
+	redis.call("EXPIRE", KEYS[1], ARGV[1])
+end
+return attempts
+`;
+
+/**
+ * Gives back an attempt reserved by a successful unlock, so only failures count.
+ * KEYS[1] = note:{shareId}:attempts
+ */
+const REFUND_ATTEMPT_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 1 then
+	redis.call("DECR", KEYS[1])
+end
+return 1
+`;
+
+export function noteKeys(shareId: string) {
+	const note = `note:${shareId}`;
+	return {
+		note,
+		views: `${note}:views`,
+		viewCount: `${note}:viewcount`,
+		password: `${note}:password`,
+		attempts: `${note}:attempts`,
+		owner: `${note}:owner`,
+		versions: `${note}:versions`,
+		attachments: `${note}:attachments`,
+		attachmentMeta: `${note}:attachmentmeta`,
+	};
+}
+
+/**
+ * All Redis keys belonging to a note, with the note record first
+ */
+export function allNoteKeys(shareId: string): string[] {
+	const keys = noteKeys(shareId);
+	return [
+		keys.note,
+		keys.views,
+		keys.viewCount,
+		keys.password,
+		keys.attempts,
+		keys.owner,
+		keys.versions,
+		keys.attachments,
+		keys.attachmentMeta,
+	];
+}
+
+/**
+ * Read a shared note, spending a view when the note is view-limited.
+ * With `record`, the stored bytes of one of its versions, nothing is spent
+ * unless that version still exists.
+ */
+async function consumeNote(
+	shareId: string,
+	record?: Buffer,
+): Promise<NoteRead | null> {
+	const keys = noteKeys(shareId);
+	const leading = [keys.note, keys.views, keys.viewCount, keys.versions];
+	// The last reader still needs the attachments the note links to, and
+	// they stay behind the note's password until they expire
+	const lingering = [keys.password, keys.attachments, keys.attachmentMeta];
+	const result = (await redisClient.evalBuffer(
+		CONSUME_VIEW_SCRIPT,
+		[
+			...leading,
+			...allNoteKeys(shareId).filter(
+				(key) => !leading.includes(key) && !lingering.includes(key),
+			),
+			...lingering,
+		],
+		[record ?? "", lingering.length, config.share.attachmentGracePeriod],
+	)) as [Buffer, number] | null;
+
+	if (!result) {
+		return null;
+	}
+
+	const [data, remaining] = result;
+	return {
+		note: JSON.parse((await redisClient.decode(data)) as string),
+		remainingViews: remaining < 0 ? null : remaining,
+	};
+}
+
+/**
+ * The title/content or encrypted payload of a note, without its metadata
+ */
+function noteBody(note: Note): NoteBody {
+	switch (note.mode) {
+		case "encrypted":
+			return { mode: "encrypted", encrypted: note.encrypted };
+		case "bundle":
+			return { mode: "bundle", title: note.title, notes: note.notes };
+		default:
+			return { mode: "plain", title: note.title, content: note.content };
+	}
+}
+
+/**
+ * Find the stored record of a version of a note, current or earlier
+ */
+async function findVersion(
+	shareId: string,
+	version: number,
+): Promise<StoredNote | null> {
+	const current = await loadNote(shareId);
+	if (!current || current.note.version === version) {
+		return current;
+	}
+
+	const history = await redisClient.lrangeBuffer(
+		noteKeys(shareId).versions,
+		0,
+		-1,
+	);
+	for (const raw of history) {
+		const note: Note = JSON.parse((await redisClient.decode(raw)) as string);
+		if (note.version === version) {
+			return { note, raw };
+		}
+	}
+	return null;
+}
+
+/**
+ * Swap the content of a note read for that of one of its versions.
+ * Expiry and view limits always come from the current record.
+ */
+function withVersion(current: Note, selected: Note): Note {
+	return {
+		...current,
+		...noteBody(selected),
+		version: selected.version,
+		updatedAt: selected.updatedAt,
+	};
+}
+
+/**
+ * Look up a note, or one of its earlier versions, without spending a view.
+ * Use this to reject a request before readNote spends a view on it.
+ */
+export async function findNote(
+	shareId: string,
+	version: number | undefined,
+): Promise<Note | null> {
+	const current = await peekNote(shareId);
+	if (!current || version === undefined) {
+		return current;
+	}
+
+	const selected = await findVersion(shareId, version);
+	return selected ? withVersion(current, selected.note) : null;
+}
+
+/**
+ * Read a shared note, or one of its earlier versions, spending a view.
+ * No view is spent on a version that does not exist.
+ */
+export async function readNote(
+	shareId: string,
+	version: number | undefined,
+): Promise<NoteRead | null> {
+	if (version === undefined) {
+		return await consumeNote(shareId);
+	}
+
+	const selected = await findVersion(shareId, version);
+	if (!selected) {
+		return null;
+	}
+	const result = await consumeNote(shareId, selected.raw);
+	return result ? { ...result, note: withVersion(result.note, selected.note) } : null;
+}
+
+/**
+ * Read a note with its view statistics without spending a view
+ */
+export async function getNoteStats(shareId: string): Promise<NoteStats | null> {
+	const keys = noteKeys(shareId);
+	const data = await redisClient.get(keys.note);
+	if (!data) {
+		return null;
+	}
+
+	const note: Note = JSON.parse(data);
+	const viewCount = Number(await redisClient.get(keys.viewCount)) || 0;
+	const remaining = await redisClient.get(keys.views);
+	return {
+		note,
+		viewCount,
+		remainingViews: remaining === null ? null : Number(remaining),
+	};
+}
+
+/**
+ * Read the current record of a note without spending a view
+ */
+export async function peekNote(shareId: string): Promise<Note | null> {
+	const data = await redisClient.get(noteKeys(shareId).note);
+	return data ? JSON.parse(data) : null;
+}
+
+/**
+ * Read the current record of a note along with its stored bytes, for use
+ * with replaceNote
+ */
+export async function loadNote(shareId: string): Promise<StoredNote | null> {
+	const raw = await redisClient.getBuffer(noteKeys(shareId).note);
+	if (!raw) {
+		return null;
+	}
+	return { note: JSON.parse((await redisClient.decode(raw)) as string), raw };
+}
+
+/**
+ * Replace a note record whose stored bytes were `previous`, pushing the old
+ * record onto the version history. Returns -1 when the note is gone, 0 when
+ * it was changed concurrently and 1 on success.
+ */
+export async function replaceNote(
+	shareId: string,
+	previous: Buffer,
+	updated: Note,
+): Promise<number> {
+	const keys = noteKeys(shareId);
+	return (await redisClient.eval(
+		UPDATE_NOTE_SCRIPT,
+		[keys.note, keys.versions],
+		[
+			previous,
+			await redisClient.encode(JSON.stringify(updated)),
+			config.share.maxVersions,
+		],
+	)) as number;
+}
+
+/**
+ * Check a password for a protected note against the per-note attempt limit.
+ * Notes without a password always pass.
+ */
+export async function checkNotePassword(
+	shareId: string,
+	password: string,
+): Promise<"ok" | "invalid" | "locked"> {
+	const keys = noteKeys(shareId);
+	const passwordHash = await redisClient.get(keys.password);
+	if (!passwordHash) {
+		return "ok";
+	}
+	// Only real guesses count towards the attempt limit
+	if (!password) {
+		return "invalid";
+	}
+
+	// Per-note brute-force limit, independent of the global rate limit
+	const attempts = (await redisClient.eval(
+		RESERVE_ATTEMPT_SCRIPT,
+		[keys.attempts],
+		[config.share.passwordAttemptWindow],
+	)) as number;
+	if (attempts > config.share.passwordMaxAttempts) {
+		return "locked";
+	}
+
+	if (!(await verifyPassword(password, passwordHash))) {
+		return "invalid";
+	}
+
+	await redisClient.eval(REFUND_ATTEMPT_SCRIPT, [keys.attempts]);
+	return "ok";
+}
+
+/**
+ * Whether a note is password protected. Its password outlives the last view
+ * briefly, together with the attachments it protects.
+ */
+export async function isPasswordProtected(shareId: string): Promise<boolean> {
+	return (await redisClient.get(noteKeys(shareId).password)) !== null;
+}
+
+/**
+ * Issue a short-lived key that lets the reader of a protected note load its
+ * attachments, which browsers request without the password
+ */
+export function issueAttachmentKey(shareId: string): string {
+	return signToken(
+		{
+			shareId,
+			attachments: true,
+			expiresAt: Date.now() + config.share.attachmentKeyTTL * 1000,
+		},
+		config.share.keySecret,
+	);
+}
+
+/**
+ * Verify an attachment key for the given note
+ */
+export function verifyAttachmentKey(key: unknown, shareId: string): boolean {
+	const claims = verifySignedToken(key, config.share.keySecret) as {
+		shareId?: unknown;
+		attachments?: unknown;
+		expiresAt?: unknown;
+	} | null;
+	return (
+		claims !== null &&
+		claims.shareId === shareId &&
+		claims.attachments === true &&
+		typeof claims.expiresAt === "number" &&
+		Date.now() <= claims.expiresAt
+	);
+}
+
+/**
+ * Append an attachment key to the note's attachment URLs in HTML content
+ */
+export function keyAttachmentUrls(html: string, shareId: string, key: string): string {
+	return html.replace(
+		new RegExp(`/api/shared/${shareId}/attachments/[A-Za-z0-9_-]+`, "g"),
+		`$&?key=${key}`,
+	);
+}
+
+/**
+ * A note whose attachment URLs carry `key`. Encrypted notes are returned
+ * as they are; their clients add the key themselves.
+ */
+export function withAttachmentKey(note: Note, shareId: string, key: string): Note {
+	switch (note.mode) {
+		case "plain":
+			return { ...note, content: keyAttachmentUrls(note.content, shareId, key) };
+		case "bundle":
+			return {
+				...note,
+				notes: note.notes.map((item) => ({
+					...item,
+					content: keyAttachmentUrls(item.content, shareId, key),
+				})),
+			};
+		default:
+			return note;
+	}
+}
+
+/**
+ * Check a management token against the hash stored for a note
+ */
+export async function isShareOwner(
+	shareId: string,
+	token: unknown,
+): Promise<boolean> {
+	if (typeof token !== "string" || !token) {
+		return false;
+	}
+
+	const storedHash = await redisClient.get(noteKeys(shareId).owner);
+	return storedHash !== null && verifyToken(token, storedHash);
+}
+
+/**
+ * Store an attachment for a note. Returns -1 when the note is gone, 0 when
+ * the note already has config.share.maxAttachments, -2 when
+ * config.share.maxAttachmentsTotal would be exceeded and 1 on success.
+ */
+export async function addAttachment(
+	shareId: string,
+	meta: AttachmentMeta,
+	data: Buffer,
+): Promise<number> {
+	const keys = noteKeys(shareId);
+	return (await redisClient.eval(
+		ADD_ATTACHMENT_SCRIPT,
+		[keys.note, keys.attachments, keys.attachmentMeta],
+		[
+			meta.id,
+			data,
+			JSON.stringify(meta),
+			config.share.maxAttachments,
+			config.share.maxAttachmentsTotal,
+		],
+	)) as number;
+}
+
+/**
+ * Read an attachment and its metadata
+ */
+export async function getAttachment(
+	shareId: string,
+	attachmentId: string,
+): Promise<Attachment | null> {
+	const keys = noteKeys(shareId);
+	const meta = await redisClient.hget(keys.attachmentMeta, attachmentId);
+	const data = await redisClient.hgetBuffer(keys.attachments, attachmentId);
+	if (!meta || !data) {
+		return null;
+	}
+	return { meta: JSON.parse(meta), data };
+}
+
+/**
+ * Metadata of all attachments of a note, oldest first
+ */
+export async function listAttachments(
+	shareId: string,
+): Promise<AttachmentMeta[]> {
+	const entries = await redisClient.hgetall(noteKeys(shareId).attachmentMeta);
+	return Object.values(entries)
+		.map((entry): AttachmentMeta => JSON.parse(entry))
+		.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Remove a note and everything stored alongside it
+ */
+export async function deleteNote(shareId: string): Promise<void> {
+	await redisClient.del(...allNoteKeys(shareId));
+}
@@ -0,0 +1,48 @@
+/**
+ * Magic numbers of binary attachment types. Uploads claiming one of these
+ * types must start with the matching signature.
+ */
+const SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+	"image/png": (data) =>
+		data.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex")),
+	"image/jpeg": (data) =>
+		data.subarray(0, 3).equals(Buffer.from("ffd8ff", "hex")),
+	"image/gif": (data) => {
+		const header = data.subarray(0, 6).toString("latin1");
+		return header === "GIF87a" || header === "GIF89a";
+	},
+	"image/webp": (data) =>
+		data.subarray(0, 4).toString("latin1") === "RIFF" &&
+		data.subarray(8, 12).toString("latin1") === "WEBP",
+	"application/pdf": (data) =>
+		data.subarray(0, 5).toString("latin1") === "%PDF-",
+};
+
+/**
+ * Strips parameters from a Content-Type header, e.g. "text/plain; charset=utf-8"
+ */
+export function baseMimeType(contentType: string | undefined): string {
+	return (contentType ?? "").split(";")[0]?.trim().toLowerCase() ?? "";
+}
+
+/**
+ * Checks that an upload's content matches its declared MIME type
+ */
+export function matchesMimeType(contentType: string, data: Buffer): boolean {
+	const check = SIGNATURES[contentType];
+	if (check) {
+		return check(data);
+	}
+	if (contentType === "text/plain") {
+		// Reject binary data posing as text
+		return !data.includes(0);
+	}
+	return true;
+}
+
+/**
+ * Images are displayed inline; everything else is downloaded
+ */
+export function isInlineType(contentType: string): boolean {
+	return contentType.startsWith("image/");
+}
@@ -0,0 +1,187 @@
+import TurndownService from "turndown";
+import { unescapeInput } from "./sanitizer";
+
+export type ExportFormat = "markdown" | "text" | "html";
+
+export interface ExportedNote {
+	body: string;
+	contentType: string;
+	filename: string;
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+	markdown: "md",
+	text: "txt",
+	html: "html",
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+	markdown: "text/markdown; charset=utf-8",
+	text: "text/plain; charset=utf-8",
+	html: "text/html; charset=utf-8",
+};
+
+const turndown = new TurndownService({
+	headingStyle: "atx",
+	codeBlockStyle: "fenced",
+	bulletListMarker: "-",
+});
+turndown.remove(["script", "style"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+		if (code[0] === "#") {
+			const point =
+				code[1] === "x" || code[1] === "X"
+					? Number.parseInt(code.slice(2), 16)
+					: Number.parseInt(code.slice(1), 10);
+			return Number.isFinite(point) && point <= 0x10ffff
+				? String.fromCodePoint(point)
+				: entity;
+		}
+		return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+	});
+}
+
+/**
+ * Converts note HTML to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+	return turndown.turndown(html);
+}
+
+/**
+ * Converts note HTML to plain text, keeping line breaks between blocks
+ */
+export function htmlToPlainText(html: string): string {
+	return decodeEntities(
+		html
+			.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+			.replace(/<br\s*\/?>/gi, "\n")
+			.replace(/<li[^>]*>/gi, "- ")
+			.replace(
+				/<\/(p|div|h[1-6]|li|blockquote|pre|tr|ul|ol|table)>/gi,
+				"\n",
+			)
+			.replace(/<[^>]*>/g, ""),
+	)
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/**
+ * Wraps note HTML in a complete, self-contained HTML document
+ */
+export function toStandaloneHtml(title: string, html: string): string {
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+body { max-width: 720px; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, sans-serif; line-height: 1.6; color: #222; }
+pre, code { font-family: ui-monospace, monospace; background: #f5f5f5; }
+pre { padding: 1rem; overflow-x: auto; }
+img { max-width: 100%; }
+blockquote { margin-left: 0; padding-left: 1rem; border-left: 3px solid #ddd; color: #555; }
+</style>
+</head>
+<body>
+<article>
+<h1>${title}</h1>
+${html}
+</article>
+</body>
+</html>
+`;
+}
+
+/**
+ * Joins the notes of a bundle into one HTML document body, one section per note.
+ * Titles must already be HTML-escaped.
+ */
+export function bundleToHtml(
+	notes: { title: string; content: string }[],
+): string {
+	return notes
+		.map((note) => `<section>\n<h2>${note.title}</h2>\n${note.content}\n</section>`)
+		.join("\n");
+}
+
+/**
+ * Builds a Content-Disposition header with an ASCII fallback filename and
+ * the full UTF-8 name (RFC 6266)
+ */
+export function contentDisposition(
+	filename: string,
+	type: "attachment" | "inline" = "attachment",
+): string {
+	const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+	// encodeURIComponent leaves characters that are not allowed in an
+	// RFC 5987 value, including the ' delimiter
+	const encoded = encodeURIComponent(filename).replace(
+		/['()*]/g,
+		(c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+	);
+	return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Strips path separators and control characters from a user-supplied filename
+ */
+export function sanitizeFilename(name: string): string {
+	return name
+		.normalize("NFKC")
+		.replace(/[\u0000-\u001f\u007f/\\:*?"<>|]+/g, " ")
+		.replace(/\s+/g, " ")
+		.trim()
+		.slice(0, 100)
+		.trim();
+}
+
+/**
+ * Derives a safe download filename from a note title
+ */
+export function exportFilename(title: string, extension: string): string {
+	return `${sanitizeFilename(title) || "shared-note"}.${extension}`;
+}
+
+/**
+ * Converts a shared note to a downloadable document.
+ * `title` is the stored, HTML-escaped title.
+ */
+export function exportNote(
+	title: string,
+	content: string,
+	format: ExportFormat,
+): ExportedNote {
+	const plainTitle = unescapeInput(title);
+	let body: string;
+	switch (format) {
+		case "markdown":
+			body = `# ${plainTitle}\n\n${htmlToMarkdown(content)}\n`;
+			break;
+		case "text":
+			body = `${plainTitle}\n\n${htmlToPlainText(content)}\n`;
+			break;
+		case "html":
+			body = toStandaloneHtml(title, content);
+			break;
+	}
+
+	return {
+		body,
+		contentType: CONTENT_TYPES[format],
+		filename: exportFilename(plainTitle, FILE_EXTENSIONS[format]),
+	};
+}
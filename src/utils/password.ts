@@ -0,0 +1,45 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		scrypt(password, salt, KEY_LENGTH, (err, derivedKey) => {
+			if (err) {
+				reject(err);
+			} else {
+				resolve(derivedKey);
+			}
+		});
+	});
+}
+
+/**
+ * Hashes a password with a random salt using scrypt.
+ * The result has the form `scrypt$<salt>$<hash>` (base64url encoded).
+ */
+export async function hashPassword(password: string): Promise<string> {
+	const salt = randomBytes(SALT_LENGTH);
+	const hash = await deriveKey(password, salt);
+	return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+/**
+ * Verifies a password against a hash produced by hashPassword in constant time
+ */
+export async function verifyPassword(
+	password: string,
+	stored: string,
+): Promise<boolean> {
+	const [scheme, saltPart, hashPart] = stored.split("$");
+	if (scheme !== "scrypt" || !saltPart || !hashPart) {
+		return false;
+	}
+
+	const expected = Buffer.from(hashPart, "base64url");
+	const actual = await deriveKey(password, Buffer.from(saltPart, "base64url"));
+	return (
+		expected.length === actual.length && timingSafeEqual(expected, actual)
+	);
+}
@@ -1,10 +1,30 @@
+import { promisify } from "node:util";
+import zlib from "node:zlib";
 import type { FastifyBaseLogger } from "fastify";
 import Redis from "ioredis";
 import config from "../config";
 
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+/**
+ * Compressed values start with this header followed by one algorithm byte.
+ * Plain values are UTF-8 text and never start with a NUL byte, so values
+ * written before compression was enabled are still read as-is.
+ */
+const COMPRESSION_MAGIC = Buffer.from([0x00, 0x5a, 0x4e, 0x01]);
+const ALGORITHM_GZIP = 1;
+const ALGORITHM_BROTLI = 2;
+
 class RedisClient {
 	private client: Redis;
 	private logger?: FastifyBaseLogger;
+	// A subscribed connection cannot run other commands, so pub/sub
+	// subscriptions get their own connection, created on first use
+	private subscriber: Redis | null = null;
+	private channelHandlers = new Map<string, (message: Buffer) => void>();
 
 	constructor() {
 		this.client = new Redis(config.redis.url || "");
@@ -32,12 +52,86 @@ class RedisClient {
 	}
 
 	/**
-	 * Set a key-value pair in Redis with optional expiration
+	 * Encode a string value for storage, compressing it when it reaches
+	 * config.redis.compression.threshold bytes
+	 */
+	async encode(value: string): Promise<string | Buffer> {
+		const { algorithm, threshold } = config.redis.compression;
+		if (algorithm === "none" || Buffer.byteLength(value) < threshold) {
+			return value;
+		}
+
+		const raw = Buffer.from(value);
+		const compressed =
+			algorithm === "gzip"
+				? await gzip(raw)
+				: await brotliCompress(raw, {
+						params: {
+							[zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+							[zlib.constants.BROTLI_PARAM_QUALITY]: 5,
+							[zlib.constants.BROTLI_PARAM_SIZE_HINT]: raw.length,
+						},
+					});
+		const id = algorithm === "gzip" ? ALGORITHM_GZIP : ALGORITHM_BROTLI;
+		return Buffer.concat([COMPRESSION_MAGIC, Buffer.from([id]), compressed]);
+	}
+
+	/**
+	 * Decode a value written by encode(), or a plain value written before
+	 * compression was enabled
+	 */
+	async decode(stored: Buffer | null): Promise<string | null> {
+		if (!stored) {
+			return null;
+		}
+		if (
+			stored.length <= COMPRESSION_MAGIC.length ||
+			!stored.subarray(0, COMPRESSION_MAGIC.length).equals(COMPRESSION_MAGIC)
+		) {
+			return stored.toString("utf8");
+		}
+
+		const id = stored[COMPRESSION_MAGIC.length];
+		const payload = stored.subarray(COMPRESSION_MAGIC.length + 1);
+		switch (id) {
+			case ALGORITHM_GZIP:
+				return (await gunzip(payload)).toString("utf8");
+			case ALGORITHM_BROTLI:
+				return (await brotliDecompress(payload)).toString("utf8");
+			default:
+				throw new Error(`Unknown compression algorithm ${id} in stored value`);
+		}
+	}
+
+	/**
+	 * Set a key-value pair in Redis with optional expiration.
+	 * Large values are compressed transparently.
 	 */
 	async set(key: string, value: string, expiration?: number): Promise<string> {
 		if (!key || value === undefined) {
 			throw new Error("Key and value are required for Redis set operation");
 		}
+		const stored = await this.encode(value);
+		if (expiration) {
+			return await this.client.set(key, stored, "EX", expiration);
+		}
+		return await this.client.set(key, stored);
+	}
+
+	/**
+	 * Set an integer counter with optional expiration. Counters are never
+	 * compressed, so INCR and DECR keep working on them.
+	 */
+	async setCounter(
+		key: string,
+		value: number,
+		expiration?: number,
+	): Promise<string> {
+		if (!key || !Number.isInteger(value)) {
+			throw new Error(
+				"Key and integer value are required for Redis setCounter operation",
+			);
+		}
 		if (expiration) {
 			return await this.client.set(key, value, "EX", expiration);
 		}
@@ -45,13 +139,13 @@ class RedisClient {
 	}
 
 	/**
-	 * Get a value from Redis by key
+	 * Get a value from Redis by key, decompressing it if needed
 	 */
 	async get(key: string): Promise<string | null> {
 		if (!key) {
 			throw new Error("Key is required for Redis get operation");
 		}
-		return await this.client.get(key);
+		return await this.decode(await this.client.getBuffer(key));
 	}
 
 	/**
@@ -93,6 +187,61 @@ class RedisClient {
 		return await this.client.del(...keys);
 	}
 
+	/**
+	 * Get a field of a hash
+	 */
+	async hget(key: string, field: string): Promise<string | null> {
+		if (!key || !field) {
+			throw new Error("Key and field are required for Redis hget operation");
+		}
+		return await this.client.hget(key, field);
+	}
+
+	/**
+	 * Get a binary field of a hash
+	 */
+	async hgetBuffer(key: string, field: string): Promise<Buffer | null> {
+		if (!key || !field) {
+			throw new Error(
+				"Key and field are required for Redis hgetBuffer operation",
+			);
+		}
+		return await this.client.hgetBuffer(key, field);
+	}
+
+	/**
+	 * Get all fields and values of a hash
+	 */
+	async hgetall(key: string): Promise<Record<string, string>> {
+		if (!key) {
+			throw new Error("Key is required for Redis hgetall operation");
+		}
+		return await this.client.hgetall(key);
+	}
+
+	/**
+	 * Get a range of elements from a list, decompressing them if needed
+	 */
+	async lrange(key: string, start: number, stop: number): Promise<string[]> {
+		if (!key) {
+			throw new Error("Key is required for Redis lrange operation");
+		}
+		const items = await this.client.lrangeBuffer(key, start, stop);
+		return (await Promise.all(items.map((item) => this.decode(item)))).filter(
+			(item): item is string => item !== null,
+		);
+	}
+
+	/**
+	 * Get a range of binary elements from a list
+	 */
+	async lrangeBuffer(key: string, start: number, stop: number): Promise<Buffer[]> {
+		if (!key) {
+			throw new Error("Key is required for Redis lrangeBuffer operation");
+		}
+		return await this.client.lrangeBuffer(key, start, stop);
+	}
+
 	/**
 	 * Find keys matching a pattern
 	 */
@@ -104,9 +253,109 @@ class RedisClient {
 	}
 
 	/**
-	 * Close the Redis connection gracefully
+	 * Run a Lua script atomically against the given keys
+	 */
+	async eval(
+		script: string,
+		keys: string[],
+		args: (string | number | Buffer)[] = [],
+	): Promise<unknown> {
+		if (!script) {
+			throw new Error("Script is required for Redis eval operation");
+		}
+		return await this.client.eval(script, keys.length, ...keys, ...args);
+	}
+
+	/**
+	 * Run a Lua script atomically, returning bulk replies as Buffers.
+	 * Use this when the script returns values that may be compressed.
+	 */
+	async evalBuffer(
+		script: string,
+		keys: string[],
+		args: (string | number | Buffer)[] = [],
+	): Promise<unknown> {
+		if (!script) {
+			throw new Error("Script is required for Redis evalBuffer operation");
+		}
+		return await this.client.callBuffer("EVAL", [script, keys.length, ...keys, ...args]);
+	}
+
+	/**
+	 * Publish a message on a pub/sub channel
+	 */
+	async publish(channel: string, message: string | Buffer): Promise<number> {
+		if (!channel) {
+			throw new Error("Channel is required for Redis publish operation");
+		}
+		return await this.client.publish(channel, message);
+	}
+
+	/**
+	 * Subscribe to a pub/sub channel, replacing any earlier handler for it
+	 */
+	async subscribe(
+		channel: string,
+		handler: (message: Buffer) => void,
+	): Promise<void> {
+		if (!channel) {
+			throw new Error("Channel is required for Redis subscribe operation");
+		}
+		this.channelHandlers.set(channel, handler);
+		await this.getSubscriber().subscribe(channel);
+	}
+
+	/**
+	 * Unsubscribe from a pub/sub channel
+	 */
+	async unsubscribe(channel: string): Promise<void> {
+		if (!channel) {
+			throw new Error("Channel is required for Redis unsubscribe operation");
+		}
+		this.channelHandlers.delete(channel);
+		if (this.subscriber) {
+			await this.subscriber.unsubscribe(channel);
+		}
+	}
+
+	/**
+	 * Number of connections, across all server instances, subscribed to a channel
+	 */
+	async subscriberCount(channel: string): Promise<number> {
+		if (!channel) {
+			throw new Error("Channel is required for Redis subscriberCount operation");
+		}
+		const [, count] = (await this.client.pubsub("NUMSUB", channel)) as [
+			string,
+			number,
+		];
+		return Number(count) || 0;
+	}
+
+	private getSubscriber(): Redis {
+		if (!this.subscriber) {
+			this.subscriber = this.client.duplicate();
+			this.subscriber.on("messageBuffer", (channel: Buffer, message: Buffer) => {
+				this.channelHandlers.get(channel.toString())?.(message);
+			});
+			this.subscriber.on("error", (err: Error) => {
+				if (this.logger) {
+					this.logger.error({ err }, "Redis subscriber connection error");
+				} else {
+					console.error("Redis subscriber connection error:", err);
+				}
+			});
+		}
+		return this.subscriber;
+	}
+
+	/**
+	 * Close the Redis connections gracefully
 	 */
 	async quit(): Promise<string> {
+		if (this.subscriber) {
+			await this.subscriber.quit();
+		}
 		return await this.client.quit();
 	}
 
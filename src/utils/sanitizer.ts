@@ -1,3 +1,81 @@
+import sanitize from "sanitize-html";
+
+/**
+ * Tags and attributes produced by the Zen editor. Anything else, including
+ * scripts, inline event handlers and style attributes, is stripped.
+ */
+const HTML_SANITIZE_OPTIONS: sanitize.IOptions = {
+	allowedTags: [
+		"p",
+		"br",
+		"hr",
+		"h1",
+		"h2",
+		"h3",
+		"h4",
+		"h5",
+		"h6",
+		"strong",
+		"b",
+		"em",
+		"i",
+		"u",
+		"s",
+		"strike",
+		"del",
+		"mark",
+		"sub",
+		"sup",
+		"code",
+		"pre",
+		"blockquote",
+		"ul",
+		"ol",
+		"li",
+		"a",
+		"img",
+		"span",
+		"div",
+		"table",
+		"thead",
+		"tbody",
+		"tr",
+		"th",
+		"td",
+	],
+	allowedAttributes: {
+		a: ["href", "title", "target", "rel"],
+		img: ["src", "alt", "title", "width", "height"],
+		code: ["class"],
+		pre: ["class"],
+		ol: ["start"],
+		ul: ["data-type"],
+		li: ["data-type", "data-checked"],
+		th: ["colspan", "rowspan"],
+		td: ["colspan", "rowspan"],
+	},
+	allowedClasses: {
+		code: ["language-*"],
+		pre: ["language-*"],
+	},
+	// Blocks javascript:, vbscript: and friends; relative URLs stay allowed
+	allowedSchemes: ["http", "https", "mailto"],
+	allowedSchemesByTag: {
+		img: ["http", "https", "data"],
+	},
+	allowProtocolRelative: false,
+	disallowedTagsMode: "discard",
+	transformTags: {
+		a: (tagName, attribs) => ({
+			tagName,
+			attribs:
+				attribs.target === "_blank"
+					? { ...attribs, rel: "noopener noreferrer" }
+					: attribs,
+		}),
+	},
+};
+
 /**
  * Sanitizes input strings to prevent XSS attacks
  */
@@ -24,3 +102,30 @@ export function sanitizeInput(input: unknown): unknown {
 		return entities[char] || char;
 	});
 }
+
+/**
+ * Reverses sanitizeInput, e.g. to turn a stored title back into plain text
+ */
+export function unescapeInput(input: string): string {
+	return input.replace(/&(lt|gt|amp|quot|#x27);/g, (entity) => {
+		const chars: Record<string, string> = {
+			"&lt;": "<",
+			"&gt;": ">",
+			"&amp;": "&",
+			"&quot;": '"',
+			"&#x27;": "'",
+		};
+		return chars[entity] || entity;
+	});
+}
+
+/**
+ * Sanitizes note HTML against the editor allowlist to prevent stored XSS
+ */
+export function sanitizeHtml(html: string): string {
+	if (!html) {
+		return html;
+	}
+
+	return sanitize(html, HTML_SANITIZE_OPTIONS);
+}
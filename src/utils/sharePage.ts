@@ -0,0 +1,190 @@
+import { htmlToPlainText } from "./export";
+import { sanitizeHtml, sanitizeInput } from "./sanitizer";
+
+interface PageOptions {
+	title: string;
+	description: string;
+	url: string;
+	nonce: string;
+	body: string;
+}
+
+interface ProtectedPageOptions {
+	url: string;
+	nonce: string;
+	passwordProtected: boolean;
+	remainingViews: number | null;
+	error?: string;
+}
+
+const DEFAULT_DESCRIPTION = "A note was shared with you on Zen.";
+const EXCERPT_LENGTH = 200;
+
+/**
+ * Content-Security-Policy for share pages. Only the nonced stylesheet, images
+ * and same-origin form posts are allowed; no scripts run at all.
+ */
+export function sharePageCsp(nonce: string): string {
+	return [
+		"default-src 'none'",
+		"img-src 'self' https: data:",
+		`style-src 'nonce-${nonce}'`,
+		"form-action 'self'",
+		"base-uri 'none'",
+		"frame-ancestors 'none'",
+	].join("; ");
+}
+
+/**
+ * Builds a short plain-text excerpt of note HTML for link previews
+ */
+export function noteExcerpt(html: string): string {
+	const text = htmlToPlainText(html).replace(/\s+/g, " ").trim();
+	if (text.length <= EXCERPT_LENGTH) {
+		return text;
+	}
+	return `${text.slice(0, EXCERPT_LENGTH - 1).trimEnd()}…`;
+}
+
+/**
+ * Page layout with OpenGraph and Twitter card tags.
+ * `title` must already be HTML-escaped; `description` and `url` are escaped here.
+ */
+function renderPage({ title, description, url, nonce, body }: PageOptions): string {
+	const safeDescription = sanitizeInput(description);
+	const safeUrl = sanitizeInput(url);
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex, nofollow">
+<meta name="referrer" content="no-referrer">
+<title>${title}</title>
+<meta name="description" content="${safeDescription}">
+<meta property="og:type" content="article">
+<meta property="og:site_name" content="Zen">
+<meta property="og:title" content="${title}">
+<meta property="og:description" content="${safeDescription}">
+<meta property="og:url" content="${safeUrl}">
+<meta name="twitter:card" content="summary">
+<meta name="twitter:title" content="${title}">
+<meta name="twitter:description" content="${safeDescription}">
+<style nonce="${nonce}">
+body { max-width: 720px; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, sans-serif; line-height: 1.6; color: #222; }
+pre, code { font-family: ui-monospace, monospace; background: #f5f5f5; }
+pre { padding: 1rem; overflow-x: auto; }
+img { max-width: 100%; }
+blockquote { margin-left: 0; padding-left: 1rem; border-left: 3px solid #ddd; color: #555; }
+.notice { padding: 0.75rem 1rem; background: #f5f5f5; border-radius: 6px; color: #555; }
+.error { color: #b00020; }
+input, button { font: inherit; padding: 0.4rem 0.6rem; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function viewsNotice(remainingViews: number | null): string {
+	if (remainingViews === null) {
+		return "";
+	}
+	if (remainingViews <= 0) {
+		return `<p class="notice">This was the last view. The note has been deleted from the server.</p>`;
+	}
+	return `<p class="notice">This note can be viewed ${remainingViews} more time${remainingViews === 1 ? "" : "s"}.</p>`;
+}
+
+/**
+ * Read-only page for a plain shared note. `title` is the stored, escaped title.
+ */
+export function renderNotePage(
+	title: string,
+	content: string,
+	url: string,
+	nonce: string,
+	remainingViews: number | null,
+): string {
+	return renderPage({
+		title,
+		description: noteExcerpt(content) || DEFAULT_DESCRIPTION,
+		url,
+		nonce,
+		body: `<article>
+<h1>${title}</h1>
+${sanitizeHtml(content)}
+</article>
+${viewsNotice(remainingViews)}`,
+	});
+}
+
+/**
+ * Page for password-protected or view-limited notes. Nothing about the note
+ * is revealed until the reader submits the form, so link previews never
+ * spend a view.
+ */
+export function renderProtectedPage({
+	url,
+	nonce,
+	passwordProtected,
+	remainingViews,
+	error,
+}: ProtectedPageOptions): string {
+	const intro = passwordProtected
+		? "This note is password protected."
+		: "This note can only be viewed a limited number of times.";
+	const views =
+		remainingViews === null
+			? ""
+			: `<p>Views left: ${remainingViews}. Opening the note uses one.</p>`;
+	const password = passwordProtected
+		? `<p><label>Password <input type="password" name="password" required autocomplete="off"></label></p>`
+		: "";
+
+	return renderPage({
+		title: "Shared note",
+		description: DEFAULT_DESCRIPTION,
+		url,
+		nonce,
+		body: `<h1>Shared note</h1>
+<p>${intro}</p>
+${views}
+${error ? `<p class="error">${sanitizeInput(error)}</p>` : ""}
+<form method="post">
+${password}
+<button type="submit">Open note</button>
+</form>`,
+	});
+}
+
+/**
+ * Page for end-to-end encrypted notes, which only the client can decrypt
+ */
+export function renderEncryptedPage(url: string, nonce: string): string {
+	return renderPage({
+		title: "Encrypted note",
+		description: DEFAULT_DESCRIPTION,
+		url,
+		nonce,
+		body: `<h1>Encrypted note</h1>
+<p>This note is end-to-end encrypted. Open the link in the Zen app to decrypt it; the server cannot read it.</p>`,
+	});
+}
+
+/**
+ * Friendly page for notes that expired, were revoked or never existed
+ */
+export function renderNotFoundPage(url: string, nonce: string): string {
+	return renderPage({
+		title: "Note not available",
+		description: "This shared note has expired or no longer exists.",
+		url,
+		nonce,
+		body: `<h1>Note not available</h1>
+<p>This shared note has expired, was deleted by its owner, or never existed.</p>
+<p>Ask the sender to share it again.</p>`,
+	});
+}
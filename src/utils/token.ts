@@ -0,0 +1,62 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+/**
+ * Generates a random URL-safe secret token
+ */
+export function generateToken(bytes = 32): string {
+	return randomBytes(bytes).toString("base64url");
+}
+
+/**
+ * Hashes a token for storage so the plain token never sits in Redis
+ */
+export function hashToken(token: string): string {
+	return createHash("sha256").update(token).digest("base64url");
+}
+
+/**
+ * Checks a token against a stored hash in constant time
+ */
+export function verifyToken(token: string, storedHash: string): boolean {
+	const expected = Buffer.from(storedHash, "base64url");
+	const actual = createHash("sha256").update(token).digest();
+	return (
+		expected.length === actual.length && timingSafeEqual(expected, actual)
+	);
+}
+
+/**
+ * Signs a JSON payload with HMAC-SHA256.
+ * The result has the form `<payload>.<signature>` (base64url encoded).
+ */
+export function signToken(payload: object, secret: string): string {
+	const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+	const signature = createHmac("sha256", secret).update(body).digest("base64url");
+	return `${body}.${signature}`;
+}
+
+/**
+ * Verifies a token produced by signToken in constant time and returns its
+ * payload, or null when the token is malformed or the signature is wrong
+ */
+export function verifySignedToken(token: unknown, secret: string): unknown {
+	if (typeof token !== "string") {
+		return null;
+	}
+	const [body, signaturePart] = token.split(".");
+	if (!body || !signaturePart) {
+		return null;
+	}
+
+	const expected = createHmac("sha256", secret).update(body).digest();
+	const actual = Buffer.from(signaturePart, "base64url");
+	if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+		return null;
+	}
+
+	try {
+		return JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+	} catch {
+		return null;
+	}
+}